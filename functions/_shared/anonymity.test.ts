@@ -0,0 +1,73 @@
+import { deepStrictEqual as assertEquals } from 'node:assert';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { loadViewer, serializeAuthored } from './anonymity.ts';
+import {
+  AUTHOR_ID,
+  COMMUNITY_ID,
+  installFakeBackend,
+  MEMBER_ID,
+  MODERATOR_ID,
+  seedCommunity,
+  SUPABASE_URL,
+} from './test-backend.ts';
+
+const backend = installFakeBackend();
+seedCommunity(backend);
+
+const supabase = createClient(SUPABASE_URL, 'service-role-key');
+
+const anonymousPost = {
+  id: '00000000-0000-4000-8000-0000000b0001',
+  author_id: AUTHOR_ID,
+  community_id: COMMUNITY_ID,
+  is_anonymous: true,
+  alias_scope: 'community' as const,
+  author_email: 'author@example.com',
+  profiles: { display_name: 'Asha', email: 'author@example.com' },
+};
+
+const namedPost = {
+  ...anonymousPost,
+  id: '00000000-0000-4000-8000-0000000b0002',
+  is_anonymous: false,
+};
+
+async function serializeFor(userId: string) {
+  return await serializeAuthored(supabase, [anonymousPost, namedPost], await loadViewer(supabase, userId));
+}
+
+Deno.test('anonymous authors are only shown to themselves and the community moderators', async () => {
+  const [forAuthor] = await serializeFor(AUTHOR_ID);
+  const [forModerator] = await serializeFor(MODERATOR_ID);
+  const [forMember] = await serializeFor(MEMBER_ID);
+
+  assertEquals([forAuthor.author_id, forAuthor.is_own], [AUTHOR_ID, true]);
+  assertEquals([forModerator.author_id, forModerator.is_own], [AUTHOR_ID, false]);
+  assertEquals([forMember.author_id, forMember.is_own], [null, false]);
+
+  for (const post of [forAuthor, forModerator, forMember]) {
+    assertEquals(post.author_display_name, 'Quiet-Heron-42');
+  }
+});
+
+Deno.test('joined profiles and emails never leave the serializer', async () => {
+  for (const userId of [AUTHOR_ID, MODERATOR_ID, MEMBER_ID]) {
+    const serialized = JSON.stringify(await serializeFor(userId));
+
+    assertEquals(serialized.includes('@example.com'), false);
+    assertEquals(serialized.includes('"profiles"'), false);
+  }
+});
+
+Deno.test('named authors keep their ID and display name for everyone', async () => {
+  const [, forMember] = await serializeFor(MEMBER_ID);
+
+  assertEquals([forMember.author_id, forMember.author_display_name], [AUTHOR_ID, 'Asha']);
+});
+
+Deno.test('anonymous content without an alias shows a constant name', async () => {
+  const threadPost = { ...anonymousPost, alias_scope: 'thread' as const };
+  const [forMember] = await serializeAuthored(supabase, [threadPost], await loadViewer(supabase, MEMBER_ID));
+
+  assertEquals([forMember.author_id, forMember.author_display_name], [null, 'Anonymous']);
+});
@@ -0,0 +1,232 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { getModeratedCommunityIds } from './permissions.ts';
+
+const ALIAS_ADJECTIVES = [
+  'Amber', 'Brave', 'Bright', 'Calm', 'Clever', 'Cosmic', 'Crimson', 'Curious',
+  'Daring', 'Gentle', 'Golden', 'Hidden', 'Jolly', 'Lively', 'Lucky', 'Mellow',
+  'Misty', 'Nimble', 'Quiet', 'Rapid', 'Rustic', 'Silent', 'Silver', 'Sleepy',
+  'Sunny', 'Swift', 'Tidy', 'Velvet', 'Wandering', 'Witty', 'Young', 'Zesty',
+];
+
+const ALIAS_NOUNS = [
+  'Badger', 'Crane', 'Dolphin', 'Falcon', 'Ferret', 'Finch', 'Gecko', 'Heron',
+  'Ibis', 'Jackal', 'Koala', 'Lemur', 'Lynx', 'Magpie', 'Marten', 'Newt',
+  'Ocelot', 'Otter', 'Panda', 'Pelican', 'Puffin', 'Quokka', 'Raven', 'Robin',
+  'Salmon', 'Sparrow', 'Tapir', 'Tortoise', 'Walrus', 'Wombat', 'Yak', 'Zebra',
+];
+
+// About 92,000 names per community or thread; a few retries make a clash vanishingly unlikely
+const MAX_ALIAS_ATTEMPTS = 8;
+
+// `community` keeps one alias per member in a community, `thread` gives a fresh alias in every post
+export const ALIAS_SCOPES = ['community', 'thread'] as const;
+export type AliasScope = typeof ALIAS_SCOPES[number];
+
+const ALIAS_TABLES: Record<AliasScope, { table: string; scopeColumn: string }> = {
+  community: { table: 'anon_aliases', scopeColumn: 'community_id' },
+  thread: { table: 'thread_aliases', scopeColumn: 'post_id' },
+};
+
+export interface Viewer {
+  userId: string;
+  moderatesAll: boolean;
+  moderatedCommunityIds: Set<string>;
+}
+
+// Rows as stored: the real author, whether they posted anonymously and where. The thread
+// is the post itself, or the post a comment belongs to.
+export interface AuthoredRow {
+  id: string;
+  post_id?: string;
+  author_id: string | null;
+  community_id: string;
+  is_anonymous: boolean;
+  alias_scope?: AliasScope;
+}
+
+export interface AuthorFields {
+  author_id: string | null;
+  author_display_name: string | null;
+  is_own: boolean;
+}
+
+// Fields that identify a person and never leave the serializer
+const IDENTITY_FIELDS = ['profiles', 'anon_aliases', 'email', 'author_email'];
+
+export async function loadViewer(supabase: SupabaseClient, userId: string): Promise<Viewer> {
+  let moderatedCommunityIds: string[] | null;
+  try {
+    moderatedCommunityIds = await getModeratedCommunityIds(supabase, userId);
+  } catch {
+    // Not a moderator anywhere
+    moderatedCommunityIds = [];
+  }
+
+  return {
+    userId,
+    moderatesAll: moderatedCommunityIds === null,
+    moderatedCommunityIds: new Set(moderatedCommunityIds ?? []),
+  };
+}
+
+function canSeeAuthor(row: AuthoredRow, viewer: Viewer) {
+  return !row.is_anonymous
+    || row.author_id === viewer.userId
+    || viewer.moderatesAll
+    || viewer.moderatedCommunityIds.has(row.community_id);
+}
+
+/**
+ * The one place posts and comments get their author fields before they are
+ * returned. Anonymous content shows the author's alias in that community or
+ * thread and keeps the author ID only for the author and the community's moderators.
+ * Joined profile data and emails are always dropped.
+ */
+export async function serializeAuthored<T extends AuthoredRow>(
+  supabase: SupabaseClient,
+  rows: T[],
+  viewer: Viewer
+): Promise<(Omit<T, keyof AuthorFields> & AuthorFields)[]> {
+  const namedAuthorIds = new Set<string>();
+  const anonymousAuthors: Record<AliasScope, { userId: string; scopeId: string }[]> = { community: [], thread: [] };
+
+  for (const row of rows) {
+    if (!row.author_id) continue;
+
+    if (row.is_anonymous) {
+      const scope = row.alias_scope ?? 'community';
+      anonymousAuthors[scope].push({ userId: row.author_id, scopeId: aliasScopeId(row, scope) });
+    } else {
+      namedAuthorIds.add(row.author_id);
+    }
+  }
+
+  const [displayNames, communityAliases, threadAliases] = await Promise.all([
+    getDisplayNames(supabase, [...namedAuthorIds]),
+    getAliases(supabase, 'community', anonymousAuthors.community),
+    getAliases(supabase, 'thread', anonymousAuthors.thread),
+  ]);
+
+  return rows.map(row => {
+    const serialized = { ...row } as Record<string, unknown>;
+    for (const field of IDENTITY_FIELDS) delete serialized[field];
+
+    let displayName: string | null = null;
+    if (row.author_id && row.is_anonymous) {
+      const scope = row.alias_scope ?? 'community';
+      const aliases = scope === 'thread' ? threadAliases : communityAliases;
+      displayName = aliases.get(aliasKey(row.author_id, aliasScopeId(row, scope))) ?? 'Anonymous';
+    } else if (row.author_id) {
+      displayName = displayNames.get(row.author_id) ?? null;
+    }
+
+    return {
+      ...serialized,
+      author_id: row.author_id && canSeeAuthor(row, viewer) ? row.author_id : null,
+      author_display_name: displayName,
+      is_own: row.author_id !== null && row.author_id === viewer.userId,
+    } as Omit<T, keyof AuthorFields> & AuthorFields;
+  });
+}
+
+/**
+ * Returns the user's alias in a community or thread, creating one on first use.
+ * Aliases read like "Quiet-Heron-42" and are unique within their scope.
+ */
+export async function ensureAnonymousAlias(
+  supabase: SupabaseClient,
+  userId: string,
+  scope: AliasScope,
+  scopeId: string
+): Promise<string> {
+  const { table, scopeColumn } = ALIAS_TABLES[scope];
+
+  for (let attempt = 0; attempt < MAX_ALIAS_ATTEMPTS; attempt++) {
+    const { data: existingAlias, error: lookupError } = await supabase
+      .from(table)
+      .select('alias_name')
+      .eq('user_id', userId)
+      .eq(scopeColumn, scopeId)
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+    if (existingAlias) return existingAlias.alias_name;
+
+    const aliasName = randomAlias();
+    const { error: insertError } = await supabase
+      .from(table)
+      .insert({
+        user_id: userId,
+        [scopeColumn]: scopeId,
+        alias_name: aliasName,
+      });
+
+    if (!insertError) return aliasName;
+
+    // Either the name is taken in this scope or a parallel request created the user's alias;
+    // the lookup at the top of the next attempt tells which
+    if (insertError.code !== '23505') throw insertError;
+  }
+
+  throw new Error('Could not create an anonymous alias, please try again');
+}
+
+function randomAlias() {
+  const [adjective, noun, number] = crypto.getRandomValues(new Uint32Array(3));
+  return [
+    ALIAS_ADJECTIVES[adjective % ALIAS_ADJECTIVES.length],
+    ALIAS_NOUNS[noun % ALIAS_NOUNS.length],
+    10 + (number % 90),
+  ].join('-');
+}
+
+function aliasScopeId(row: AuthoredRow, scope: AliasScope) {
+  return scope === 'thread' ? row.post_id ?? row.id : row.community_id;
+}
+
+function aliasKey(userId: string, scopeId: string) {
+  return `${userId}:${scopeId}`;
+}
+
+async function getDisplayNames(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  if (userIds.length === 0) return names;
+
+  const { data: profiles, error } = await supabase
+    .from('profiles')
+    .select('id, display_name')
+    .in('id', userIds);
+
+  if (error) throw error;
+
+  for (const profile of profiles || []) {
+    names.set(profile.id, profile.display_name);
+  }
+
+  return names;
+}
+
+// Aliases are per community or per thread, so they are matched on both the user and the scope
+async function getAliases(
+  supabase: SupabaseClient,
+  scope: AliasScope,
+  authors: { userId: string; scopeId: string }[]
+): Promise<Map<string, string>> {
+  const aliases = new Map<string, string>();
+  if (authors.length === 0) return aliases;
+
+  const { table, scopeColumn } = ALIAS_TABLES[scope];
+  const { data: rows, error } = await supabase
+    .from(table)
+    .select(`user_id, ${scopeColumn}, alias_name`)
+    .in('user_id', [...new Set(authors.map(author => author.userId))])
+    .in(scopeColumn, [...new Set(authors.map(author => author.scopeId))]);
+
+  if (error) throw error;
+
+  for (const row of (rows || []) as unknown as Record<string, string>[]) {
+    aliases.set(aliasKey(row.user_id, row[scopeColumn]), row.alias_name);
+  }
+
+  return aliases;
+}
@@ -0,0 +1,133 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export const ATTACHMENTS_BUCKET = 'attachments';
+
+const MAX_ATTACHMENTS = {
+  post: 10,
+  comment: 4,
+};
+
+export interface AttachmentSummary {
+  id: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  is_quarantined: boolean;
+}
+
+/**
+ * Checks that uploads can be attached to a new post or comment: they must
+ * belong to the user, target the same community, be unattached and have
+ * finished uploading with the type and size declared when the upload was
+ * requested. Call before creating the content, then attachUploads.
+ */
+export async function assertAttachable(
+  supabase: SupabaseClient,
+  userId: string,
+  communityId: string,
+  targetType: 'post' | 'comment',
+  attachmentIds: string[]
+) {
+  if (!Array.isArray(attachmentIds)) {
+    throw new Error('Attachment IDs must be a list');
+  }
+
+  if (attachmentIds.length > MAX_ATTACHMENTS[targetType]) {
+    throw new Error(`At most ${MAX_ATTACHMENTS[targetType]} attachments are allowed per ${targetType}`);
+  }
+
+  const { data: attachments, error } = await supabase
+    .from('attachments')
+    .select('id, uploader_id, community_id, target_id, storage_path, mime_type, size_bytes')
+    .in('id', attachmentIds);
+
+  if (error) throw error;
+
+  if (!attachments || attachments.length !== new Set(attachmentIds).size) {
+    throw new Error('Attachment not found');
+  }
+
+  for (const attachment of attachments) {
+    if (attachment.uploader_id !== userId || attachment.community_id !== communityId) {
+      throw new Error('Attachment not found');
+    }
+
+    if (attachment.target_id) {
+      throw new Error('Attachment is already in use');
+    }
+
+    const folder = attachment.storage_path.slice(0, attachment.storage_path.lastIndexOf('/'));
+    const fileName = attachment.storage_path.slice(attachment.storage_path.lastIndexOf('/') + 1);
+
+    const { data: objects, error: listError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .list(folder, { search: fileName });
+
+    if (listError) throw listError;
+
+    const object = objects?.find(candidate => candidate.name === fileName);
+    if (!object) {
+      throw new Error('An attachment has not finished uploading');
+    }
+
+    // The signed upload URL doesn't pin the type or size, so compare what storage actually received
+    const storedType = String(object.metadata?.mimetype ?? '').split(';')[0].trim();
+    if (storedType !== attachment.mime_type || object.metadata?.size !== attachment.size_bytes) {
+      throw new Error('An attachment does not match the file type or size it was requested with');
+    }
+  }
+}
+
+export async function attachUploads(
+  supabase: SupabaseClient,
+  targetType: 'post' | 'comment',
+  targetId: string,
+  attachmentIds: string[]
+) {
+  if (attachmentIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('attachments')
+    .update({
+      target_type: targetType,
+      target_id: targetId,
+      attached_at: new Date().toISOString(),
+    })
+    .in('id', attachmentIds)
+    .is('target_id', null);
+
+  if (error) throw error;
+}
+
+// Attachment metadata for several posts or comments, keyed by target ID
+export async function getAttachmentSummaries(
+  supabase: SupabaseClient,
+  targetType: 'post' | 'comment',
+  targetIds: string[]
+): Promise<Map<string, AttachmentSummary[]>> {
+  const summaries = new Map<string, AttachmentSummary[]>();
+  if (targetIds.length === 0) return summaries;
+
+  const { data: attachments, error } = await supabase
+    .from('attachments')
+    .select('id, target_id, file_name, mime_type, size_bytes, quarantined_at')
+    .eq('target_type', targetType)
+    .in('target_id', targetIds)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  for (const attachment of attachments || []) {
+    const list = summaries.get(attachment.target_id) ?? [];
+    list.push({
+      id: attachment.id,
+      file_name: attachment.file_name,
+      mime_type: attachment.mime_type,
+      size_bytes: attachment.size_bytes,
+      is_quarantined: attachment.quarantined_at !== null,
+    });
+    summaries.set(attachment.target_id, list);
+  }
+
+  return summaries;
+}
@@ -0,0 +1,61 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+interface ActiveBan {
+  community_id: string | null;
+  reason: string;
+  expires_at: string | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Finds the most severe active ban: permanent over timed, site-wide over community
+export async function getActiveBan(
+  supabase: SupabaseClient,
+  userId: string,
+  communityId: string | null
+): Promise<ActiveBan | null> {
+  // The community ID is placed inside a filter expression, so it has to be a plain UUID
+  if (communityId && !UUID_PATTERN.test(communityId)) {
+    throw new Error('Invalid community ID');
+  }
+
+  let query = supabase
+    .from('user_bans')
+    .select('community_id, reason, expires_at')
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+  query = communityId
+    ? query.or(`community_id.is.null,community_id.eq.${communityId}`)
+    : query.is('community_id', null);
+
+  const { data: bans, error } = await query;
+
+  if (error) throw error;
+  if (!bans || bans.length === 0) return null;
+
+  return bans.sort((a, b) => {
+    if (!a.expires_at !== !b.expires_at) return a.expires_at ? 1 : -1;
+    if (!a.community_id !== !b.community_id) return a.community_id ? 1 : -1;
+    return (b.expires_at ?? '').localeCompare(a.expires_at ?? '');
+  })[0];
+}
+
+// Throws a user-facing error when the user may not write in the given community
+export async function assertNotBanned(
+  supabase: SupabaseClient,
+  userId: string,
+  communityId: string | null
+) {
+  const ban = await getActiveBan(supabase, userId, communityId);
+  if (!ban) return;
+
+  const scope = ban.community_id ? 'from this community' : 'from WhatTheDUK';
+
+  if (ban.expires_at) {
+    throw new Error(`You are suspended ${scope} until ${ban.expires_at}. Reason: ${ban.reason}`);
+  }
+
+  throw new Error(`You are banned ${scope}. Reason: ${ban.reason}`);
+}
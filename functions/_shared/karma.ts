@@ -0,0 +1,33 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { assertCanModerate } from './permissions.ts';
+
+// Global karma; community moderators are never held back by their own community's gate
+export async function assertMinimumKarma(
+  supabase: SupabaseClient,
+  userId: string,
+  communityId: string,
+  minimum: number,
+  action: 'post' | 'comment'
+) {
+  if (minimum <= 0) return;
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('karma_score')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+
+  const karma = profile?.karma_score ?? 0;
+  if (karma >= minimum) return;
+
+  try {
+    await assertCanModerate(supabase, userId, communityId);
+    return;
+  } catch {
+    // Not a moderator here
+  }
+
+  throw new Error(`You need at least ${minimum} karma to ${action} in this community (you have ${karma})`);
+}
@@ -0,0 +1,421 @@
+/**
+ * Markdown subset for post and comment bodies: emphasis, lists, code, quotes,
+ * links and spoilers (`>!hidden!<`). Anything else is kept as text. The HTML
+ * is generated from a parsed tree with every piece of source text escaped, so
+ * no markup written by the author reaches readers.
+ */
+
+type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'break' }
+  | { type: 'strong' | 'em' | 'spoiler'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] };
+
+type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'code'; language: string | null; text: string }
+  | { type: 'quote'; children: Block[] }
+  | { type: 'list'; ordered: boolean; start: number; tight: boolean; items: Block[][] };
+
+export interface RenderedMarkdown {
+  // Sanitised HTML for display
+  html: string;
+  // The same content without markup, with link targets kept, for moderation and search
+  text: string;
+}
+
+// Deeper quotes, lists and emphasis are left as text
+const MAX_NESTING = 8;
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)[^`]*$/;
+const QUOTE = /^ {0,3}>(?!!)/; // ">!" opens a spoiler rather than a quote
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])( +|$)(.*)$/;
+const LANGUAGE = /^[\w+#-]{1,30}$/;
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!>~|<]/;
+
+const LINK = /\[((?:[^[\]\\\n]|\\.){1,500})\]\(\s*(<[^<>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)\s*\)/y;
+const AUTOLINK = /https?:\/\/[^\s<>]*[^\s<>.,:;"'!?)\]*_~]/y;
+
+const SPANS: { open: string; close: string; type: 'strong' | 'em' | 'spoiler'; intraword: boolean }[] = [
+  { open: '>!', close: '!<', type: 'spoiler', intraword: true },
+  { open: '**', close: '**', type: 'strong', intraword: true },
+  { open: '__', close: '__', type: 'strong', intraword: false },
+  { open: '*', close: '*', type: 'em', intraword: true },
+  { open: '_', close: '_', type: 'em', intraword: false },
+];
+
+export function renderMarkdown(source: string): RenderedMarkdown {
+  const lines = source
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u0000/g, '')
+    .split('\n')
+    .map(line => line.replace(/^\t+/, tabs => '    '.repeat(tabs.length)));
+
+  const blocks = parseBlocks(lines, 0);
+
+  return {
+    html: blocks.map(blockToHtml).join('\n'),
+    text: blocks.map(blockToText).join('\n\n').trim(),
+  };
+}
+
+function parseBlocks(lines: string[], depth: number): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const closing = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`);
+      let end = i + 1;
+      while (end < lines.length && !closing.test(lines[end])) end++;
+
+      blocks.push({
+        type: 'code',
+        language: LANGUAGE.test(fence[2]) ? fence[2].toLowerCase() : null,
+        text: lines.slice(i + 1, end).join('\n'),
+      });
+      i = end + 1;
+      continue;
+    }
+
+    if (depth < MAX_NESTING && QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(/^ {0,3}> ?/, ''));
+        i++;
+      }
+
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    if (depth < MAX_NESTING && LIST_ITEM.test(line)) {
+      i = parseList(lines, i, depth, blocks);
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i], depth)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n'), depth, false) });
+  }
+
+  return blocks;
+}
+
+function startsBlock(line: string, depth: number) {
+  return FENCE.test(line) || (depth < MAX_NESTING && (QUOTE.test(line) || LIST_ITEM.test(line)));
+}
+
+function indentOf(line: string) {
+  return line.length - line.trimStart().length;
+}
+
+// Items continue on lines indented to the item's text; returns the index of the first line after the list
+function parseList(lines: string[], start: number, depth: number, blocks: Block[]): number {
+  const first = lines[start].match(LIST_ITEM)!;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: Block[][] = [];
+  let tight = true;
+
+  const sameList = (match: RegExpMatchArray | null): match is RegExpMatchArray =>
+    match !== null && /\d/.test(match[2]) === ordered && match[2].slice(-1) === delimiter;
+
+  let i = start;
+  while (i < lines.length) {
+    const item = lines[i].match(LIST_ITEM);
+    if (!sameList(item)) break;
+
+    const contentIndent = item[1].length + item[2].length + Math.max(item[3].length, 1);
+    const itemLines = [item[4]];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (!line.trim()) {
+        let next = i;
+        while (next < lines.length && !lines[next].trim()) next++;
+        if (next === lines.length || indentOf(lines[next]) < contentIndent) break;
+
+        itemLines.push(...lines.slice(i, next).map(() => ''));
+        tight = false;
+        i = next;
+        continue;
+      }
+
+      if (indentOf(line) >= contentIndent) {
+        itemLines.push(line.slice(contentIndent));
+      } else if (!startsBlock(line, depth) && itemLines[itemLines.length - 1].trim()) {
+        // Unindented text carries on the item's last paragraph
+        itemLines.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    items.push(parseBlocks(itemLines, depth + 1));
+
+    // Blank lines between items keep the list going
+    let next = i;
+    while (next < lines.length && !lines[next].trim()) next++;
+    if (next > i && next < lines.length && sameList(lines[next].match(LIST_ITEM))) {
+      tight = false;
+      i = next;
+    }
+  }
+
+  blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, tight, items });
+  return i;
+}
+
+function parseInline(text: string, depth: number, inLink: boolean): Inline[] {
+  const nodes: Inline[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = findCodeClose(text, i + run.length, run.length);
+      if (close === -1) {
+        buffer += run;
+        i += run.length;
+        continue;
+      }
+
+      flush();
+      nodes.push({ type: 'code', text: text.slice(i + run.length, close).replace(/\n/g, ' ') });
+      i = close + run.length;
+      continue;
+    }
+
+    if (char === '[' && !inLink && depth < MAX_NESTING) {
+      LINK.lastIndex = i;
+      const link = LINK.exec(text);
+      if (link) {
+        flush();
+        const label = parseInline(link[1], depth + 1, true);
+        const href = safeHref(link[2].replace(/^<|>$/g, ''));
+        if (href) {
+          nodes.push({ type: 'link', href, children: label });
+        } else {
+          nodes.push(...label);
+        }
+        i = LINK.lastIndex;
+        continue;
+      }
+    }
+
+    if (char === 'h' && !inLink && (i === 0 || !/\w/.test(text[i - 1]))) {
+      AUTOLINK.lastIndex = i;
+      const url = AUTOLINK.exec(text);
+      const href = url && safeHref(url[0]);
+      if (href) {
+        flush();
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: url[0] }] });
+        i = AUTOLINK.lastIndex;
+        continue;
+      }
+    }
+
+    if (depth < MAX_NESTING) {
+      const span = matchSpan(text, i);
+      if (span) {
+        flush();
+        nodes.push({ type: span.type, children: parseInline(span.inner, depth + 1, inLink) });
+        i = span.end;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+function findCodeClose(text: string, from: number, length: number): number {
+  for (let i = text.indexOf('`', from); i !== -1; i = text.indexOf('`', i + 1)) {
+    const run = text.slice(i).match(/^`+/)![0];
+    if (run.length === length) return i;
+    i += run.length - 1;
+  }
+  return -1;
+}
+
+// Emphasis and spoilers need text right inside both delimiters; underscores do not open or close inside words
+function matchSpan(text: string, start: number) {
+  for (const span of SPANS) {
+    if (!text.startsWith(span.open, start)) continue;
+
+    const innerStart = start + span.open.length;
+    if (innerStart >= text.length || /\s/.test(text[innerStart])) continue;
+    if (!span.intraword && start > 0 && /[\p{L}\p{N}]/u.test(text[start - 1])) continue;
+
+    // A lone * or _ next to another one is part of a longer run, not emphasis
+    const single = span.open.length === 1;
+    if (single && (text[innerStart] === span.open || text[start - 1] === span.open)) continue;
+    for (let close = text.indexOf(span.close, innerStart + 1); close !== -1; close = text.indexOf(span.close, close + 1)) {
+      const after = close + span.close.length;
+
+      if (/\s/.test(text[close - 1]) || text[close - 1] === '\\') continue;
+      if (single && (text[close - 1] === span.close || text[after] === span.close)) continue;
+      if (!span.intraword && after < text.length && /[\p{L}\p{N}]/u.test(text[after])) continue;
+      if (crossesCodeSpan(text, innerStart, close)) continue;
+
+      return { type: span.type, inner: text.slice(innerStart, close), end: after };
+    }
+  }
+
+  return null;
+}
+
+// True when a code span starting inside the range ends after it
+function crossesCodeSpan(text: string, from: number, to: number): boolean {
+  for (let i = text.indexOf('`', from); i !== -1 && i < to; i = text.indexOf('`', i)) {
+    const run = text.slice(i).match(/^`+/)![0];
+    const close = findCodeClose(text, i + run.length, run.length);
+    if (close === -1) {
+      i += run.length;
+      continue;
+    }
+    if (close >= to) return true;
+    i = close + run.length;
+  }
+  return false;
+}
+
+// Only web and mail links; relative and script URLs are dropped and their text kept
+function safeHref(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return ['http:', 'https:', 'mailto:'].includes(url.protocol) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function inlineToHtml(node: Inline): string {
+  switch (node.type) {
+    case 'text':
+      return escapeHtml(node.text);
+    case 'code':
+      return `<code>${escapeHtml(node.text)}</code>`;
+    case 'break':
+      return '<br>';
+    case 'strong':
+      return `<strong>${node.children.map(inlineToHtml).join('')}</strong>`;
+    case 'em':
+      return `<em>${node.children.map(inlineToHtml).join('')}</em>`;
+    case 'spoiler':
+      return `<span class="spoiler">${node.children.map(inlineToHtml).join('')}</span>`;
+    case 'link':
+      return `<a href="${escapeHtml(node.href)}" rel="nofollow noopener">${node.children.map(inlineToHtml).join('')}</a>`;
+  }
+}
+
+function blockToHtml(block: Block): string {
+  switch (block.type) {
+    case 'paragraph':
+      return `<p>${block.children.map(inlineToHtml).join('')}</p>`;
+    case 'code': {
+      const language = block.language ? ` class="language-${escapeHtml(block.language)}"` : '';
+      return `<pre><code${language}>${escapeHtml(block.text)}</code></pre>`;
+    }
+    case 'quote':
+      return `<blockquote>\n${block.children.map(blockToHtml).join('\n')}\n</blockquote>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+      // Paragraphs in lists without blank lines render without <p>
+      const items = block.items.map(item => {
+        const content = item.map(child => block.tight && child.type === 'paragraph'
+          ? child.children.map(inlineToHtml).join('')
+          : blockToHtml(child));
+        return `<li>${content.join('\n')}</li>`;
+      });
+      return `<${tag}${start}>\n${items.join('\n')}\n</${tag}>`;
+    }
+  }
+}
+
+function inlineToText(node: Inline): string {
+  switch (node.type) {
+    case 'text':
+    case 'code':
+      return node.text;
+    case 'break':
+      return '\n';
+    case 'link': {
+      const label = node.children.map(inlineToText).join('');
+      return label === node.href || label + '/' === node.href ? label : `${label} (${node.href})`;
+    }
+    default:
+      return node.children.map(inlineToText).join('');
+  }
+}
+
+function blockToText(block: Block): string {
+  switch (block.type) {
+    case 'paragraph':
+      return block.children.map(inlineToText).join('');
+    case 'code':
+      return block.text;
+    case 'quote':
+      return block.children.map(blockToText).join('\n\n');
+    case 'list':
+      return block.items
+        .map((item, index) => {
+          const marker = block.ordered ? `${block.start + index}. ` : '- ';
+          return marker + item.map(blockToText).join('\n\n');
+        })
+        .join('\n');
+  }
+}
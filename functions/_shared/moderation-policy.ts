@@ -0,0 +1,143 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export interface ModerationPolicy {
+  reject_threshold: number;
+  flag_threshold: number;
+  blocked_terms: string[];
+  allowed_terms: string[];
+  allow_links: boolean;
+  new_member_review_posts: number;
+  report_flag_threshold: number;
+  duplicate_action: 'off' | 'flag' | 'reject';
+  duplicate_threshold: number;
+  allowed_domains: string[];
+  blocked_domains: string[];
+  min_post_karma: number;
+  min_comment_karma: number;
+}
+
+export const DEFAULT_MODERATION_POLICY: ModerationPolicy = {
+  reject_threshold: 0.8,
+  flag_threshold: 0.5,
+  blocked_terms: [],
+  allowed_terms: [],
+  allow_links: true,
+  new_member_review_posts: 0,
+  report_flag_threshold: 3,
+  duplicate_action: 'flag',
+  duplicate_threshold: 0.7,
+  allowed_domains: [],
+  blocked_domains: [],
+  min_post_karma: 0,
+  min_comment_karma: 0,
+};
+
+const MODERATION_POLICY_COLUMNS =
+  'reject_threshold, flag_threshold, blocked_terms, allowed_terms, allow_links, new_member_review_posts, report_flag_threshold, duplicate_action, duplicate_threshold, allowed_domains, blocked_domains, min_post_karma, min_comment_karma';
+
+const MAX_POLICY_TERMS = 200;
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}$/;
+
+function normalizeTerms(terms: unknown, field: string): string[] {
+  if (!Array.isArray(terms) || terms.some(term => typeof term !== 'string')) {
+    throw new Error(`${field} must be a list of words or phrases`);
+  }
+
+  const normalized = [...new Set(terms.map(term => term.trim().toLowerCase()).filter(Boolean))];
+  if (normalized.length > MAX_POLICY_TERMS) {
+    throw new Error(`${field} can contain at most ${MAX_POLICY_TERMS} entries`);
+  }
+
+  return normalized;
+}
+
+// Accepts bare domains; a leading scheme or "*." is dropped since subdomains always match
+function normalizeDomains(domains: unknown, field: string): string[] {
+  if (!Array.isArray(domains) || domains.some(domain => typeof domain !== 'string')) {
+    throw new Error(`${field} must be a list of domains`);
+  }
+
+  const normalized = [...new Set(domains
+    .map(domain => domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^\*\./, '').replace(/[/.]+$/, ''))
+    .filter(Boolean))];
+
+  const invalid = normalized.find(domain => !DOMAIN_PATTERN.test(domain));
+  if (invalid) {
+    throw new Error(`${field} contains an invalid domain: ${invalid}`);
+  }
+
+  if (normalized.length > MAX_POLICY_TERMS) {
+    throw new Error(`${field} can contain at most ${MAX_POLICY_TERMS} entries`);
+  }
+
+  return normalized;
+}
+
+// Merges a partial update into the current policy and validates the result
+export function mergeModerationPolicy(
+  current: ModerationPolicy,
+  update: Partial<ModerationPolicy>
+): ModerationPolicy {
+  const policy: ModerationPolicy = { ...current };
+
+  if (update.reject_threshold !== undefined) policy.reject_threshold = Number(update.reject_threshold);
+  if (update.flag_threshold !== undefined) policy.flag_threshold = Number(update.flag_threshold);
+  if (update.blocked_terms !== undefined) policy.blocked_terms = normalizeTerms(update.blocked_terms, 'blocked_terms');
+  if (update.allowed_terms !== undefined) policy.allowed_terms = normalizeTerms(update.allowed_terms, 'allowed_terms');
+  if (update.allow_links !== undefined) policy.allow_links = Boolean(update.allow_links);
+  if (update.new_member_review_posts !== undefined) policy.new_member_review_posts = Number(update.new_member_review_posts);
+  if (update.report_flag_threshold !== undefined) policy.report_flag_threshold = Number(update.report_flag_threshold);
+  if (update.duplicate_action !== undefined) policy.duplicate_action = update.duplicate_action;
+  if (update.duplicate_threshold !== undefined) policy.duplicate_threshold = Number(update.duplicate_threshold);
+  if (update.allowed_domains !== undefined) policy.allowed_domains = normalizeDomains(update.allowed_domains, 'allowed_domains');
+  if (update.blocked_domains !== undefined) policy.blocked_domains = normalizeDomains(update.blocked_domains, 'blocked_domains');
+  if (update.min_post_karma !== undefined) policy.min_post_karma = Number(update.min_post_karma);
+  if (update.min_comment_karma !== undefined) policy.min_comment_karma = Number(update.min_comment_karma);
+
+  for (const threshold of [policy.reject_threshold, policy.flag_threshold, policy.duplicate_threshold]) {
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+      throw new Error('Thresholds must be between 0 and 1');
+    }
+  }
+
+  if (policy.flag_threshold > policy.reject_threshold) {
+    throw new Error('Flag threshold cannot be higher than the reject threshold');
+  }
+
+  if (!Number.isInteger(policy.new_member_review_posts) || policy.new_member_review_posts < 0 || policy.new_member_review_posts > 50) {
+    throw new Error('New member review count must be a whole number between 0 and 50');
+  }
+
+  if (!Number.isInteger(policy.report_flag_threshold) || policy.report_flag_threshold < 1 || policy.report_flag_threshold > 100) {
+    throw new Error('Report threshold must be a whole number between 1 and 100');
+  }
+
+  for (const minimum of [policy.min_post_karma, policy.min_comment_karma]) {
+    if (!Number.isInteger(minimum) || minimum < 0 || minimum > 100000) {
+      throw new Error('Minimum karma must be a whole number between 0 and 100000');
+    }
+  }
+
+  if (!['off', 'flag', 'reject'].includes(policy.duplicate_action)) {
+    throw new Error('Duplicate action must be off, flag or reject');
+  }
+
+  return policy;
+}
+
+// Communities without a stored policy use the defaults
+export async function loadModerationPolicy(
+  supabase: SupabaseClient,
+  communityId: string
+): Promise<ModerationPolicy> {
+  const { data: storedPolicy, error } = await supabase
+    .from('community_moderation_policies')
+    .select(MODERATION_POLICY_COLUMNS)
+    .eq('community_id', communityId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return { ...DEFAULT_MODERATION_POLICY, ...storedPolicy };
+}
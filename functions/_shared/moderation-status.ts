@@ -0,0 +1,23 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+// Only content that was approved goes back through automated approval; flagged or reported
+// content stays flagged so a moderator still looks at it
+export async function getEditModerationStatus(
+  supabase: SupabaseClient,
+  targetType: 'post' | 'comment',
+  targetId: string,
+  currentStatus: string
+): Promise<'flagged' | 'pending'> {
+  if (currentStatus === 'flagged') return 'flagged';
+
+  const { count: openReports, error } = await supabase
+    .from('content_reports')
+    .select('id', { count: 'exact', head: true })
+    .eq('target_type', targetType)
+    .eq('target_id', targetId)
+    .eq('status', 'open');
+
+  if (error) throw error;
+
+  return (openReports ?? 0) > 0 ? 'flagged' : 'pending';
+}
@@ -0,0 +1,86 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+// Returns null for site-wide moderators, otherwise the communities the user moderates
+export async function getModeratedCommunityIds(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string[] | null> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('is_moderator, is_admin')
+    .eq('id', userId)
+    .single();
+
+  if (profile?.is_moderator || profile?.is_admin) {
+    return null;
+  }
+
+  const { data: memberships, error } = await supabase
+    .from('memberships')
+    .select('community_id')
+    .eq('user_id', userId)
+    .eq('status', 'approved')
+    .in('role', ['moderator', 'admin']);
+
+  if (error) throw error;
+
+  if (!memberships || memberships.length === 0) {
+    throw new Error('You do not have moderator permissions');
+  }
+
+  return memberships.map(membership => membership.community_id);
+}
+
+// Site-wide actions (communityId null) are limited to site moderators
+export async function assertCanModerate(
+  supabase: SupabaseClient,
+  userId: string,
+  communityId: string | null
+) {
+  const moderatedCommunities = await getModeratedCommunityIds(supabase, userId);
+  if (!moderatedCommunities) return;
+
+  if (!communityId) {
+    throw new Error('Only site moderators can take site-wide action');
+  }
+
+  if (!moderatedCommunities.includes(communityId)) {
+    throw new Error('You do not have permission to moderate this community');
+  }
+}
+
+// Anyone signed in can read public communities; private ones need approved membership
+export async function canViewCommunity(
+  supabase: SupabaseClient,
+  userId: string,
+  communityId: string
+): Promise<boolean> {
+  const { data: community } = await supabase
+    .from('communities')
+    .select('privacy_type')
+    .eq('id', communityId)
+    .single();
+
+  if (!community) return false;
+  if (community.privacy_type === 'public') return true;
+
+  const { data: membership } = await supabase
+    .from('memberships')
+    .select('status')
+    .eq('user_id', userId)
+    .eq('community_id', communityId)
+    .single();
+
+  return membership?.status === 'approved';
+}
+
+// Voting follows reading: public communities are open, private ones need approved membership, as for posting
+export async function assertCanVote(
+  supabase: SupabaseClient,
+  userId: string,
+  communityId: string
+) {
+  if (!await canViewCommunity(supabase, userId, communityId)) {
+    throw new Error('You must be a member of this community to vote');
+  }
+}
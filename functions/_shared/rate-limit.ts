@@ -0,0 +1,51 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from './cors.ts';
+
+export type RateLimitedAction = 'post' | 'comment' | 'vote' | 'join' | 'report' | 'upload';
+
+interface RateLimitResult {
+  allowed: boolean;
+  retry_after_seconds: number;
+  request_limit: number | null;
+  remaining: number | null;
+}
+
+/**
+ * Counts the request against the user's limit for the action. Returns a 429
+ * response to send back when the limit is exceeded, or null to carry on.
+ */
+export async function checkRateLimit(
+  supabase: SupabaseClient,
+  userId: string,
+  action: RateLimitedAction,
+  communityId: string | null = null
+): Promise<Response | null> {
+  const { data, error } = await supabase
+    .rpc('check_rate_limit', {
+      p_user_id: userId,
+      p_action: action,
+      p_community_id: communityId,
+    })
+    .single();
+
+  if (error) throw error;
+
+  const result = data as RateLimitResult;
+  if (result.allowed) return null;
+
+  return new Response(
+    JSON.stringify({
+      error: `Too many requests. Please try again in ${result.retry_after_seconds} seconds`,
+      retry_after: result.retry_after_seconds,
+    }),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': String(result.retry_after_seconds),
+        'Access-Control-Expose-Headers': 'Retry-After',
+        ...corsHeaders,
+      },
+    }
+  );
+}
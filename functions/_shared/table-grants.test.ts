@@ -0,0 +1,91 @@
+import { deepStrictEqual as assertEquals } from 'node:assert';
+
+// Replays the migrations' column definitions and SELECT grants, since clients can query tables
+// directly through the REST API and not only through the edge functions
+const MIGRATIONS_DIR = new URL('../../migrations/', import.meta.url);
+const CLIENT_ROLES = ['anon', 'authenticated'];
+
+const NOT_COLUMNS = new Set(['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'CHECK', 'FOREIGN', 'EXCLUDE']);
+
+async function readMigrations() {
+  const names: string[] = [];
+  for await (const entry of Deno.readDir(MIGRATIONS_DIR)) {
+    if (entry.isFile && entry.name.endsWith('.sql')) names.push(entry.name);
+  }
+
+  names.sort();
+  return await Promise.all(names.map(name => Deno.readTextFile(new URL(name, MIGRATIONS_DIR))));
+}
+
+function tableColumns(migrations: string[], table: string) {
+  const columns = new Set<string>();
+  const created = new RegExp(`CREATE TABLE (?:IF NOT EXISTS )?${table} \\(([\\s\\S]*?)\\n\\);`, 'g');
+  const altered = new RegExp(`ALTER TABLE (?:IF EXISTS )?${table}\\s([^;]*);`, 'g');
+
+  for (const sql of migrations) {
+    for (const [, body] of sql.matchAll(created)) {
+      for (const line of body.split('\n')) {
+        const name = line.trim().split(/[\s(]/)[0];
+        if (name && !name.startsWith('--') && !NOT_COLUMNS.has(name.toUpperCase())) columns.add(name);
+      }
+    }
+
+    for (const [, change] of sql.matchAll(altered)) {
+      for (const [, name] of change.matchAll(/ADD COLUMN (?:IF NOT EXISTS )?(\w+)/g)) columns.add(name);
+      for (const [, name] of change.matchAll(/DROP COLUMN (?:IF EXISTS )?(\w+)/g)) columns.delete(name);
+    }
+  }
+
+  return columns;
+}
+
+// Columns each client role may select, starting from Supabase's table-wide grant to both roles
+function readableColumns(migrations: string[], table: string, allColumns: Set<string>) {
+  const tableGrant = new Map(CLIENT_ROLES.map(role => [role, true]));
+  const columnGrants = new Map(CLIENT_ROLES.map(role => [role, new Set<string>()]));
+  const statement = new RegExp(
+    `(GRANT|REVOKE) SELECT\\s*(?:\\(([^)]*)\\)\\s*)?ON (?:TABLE )?${table} (?:TO|FROM) ([\\w\\s,]+);`,
+    'g'
+  );
+
+  for (const sql of migrations) {
+    for (const [, verb, columns, roles] of sql.matchAll(statement)) {
+      for (const role of roles.split(',').map(name => name.trim())) {
+        if (!CLIENT_ROLES.includes(role)) continue;
+
+        if (!columns) {
+          tableGrant.set(role, verb === 'GRANT');
+          if (verb === 'REVOKE') columnGrants.get(role)!.clear();
+        } else {
+          for (const name of columns.split(',').map(column => column.trim())) {
+            if (verb === 'GRANT') columnGrants.get(role)!.add(name);
+            else columnGrants.get(role)!.delete(name);
+          }
+        }
+      }
+    }
+  }
+
+  return Object.fromEntries(CLIENT_ROLES.map(role => [
+    role,
+    [...(tableGrant.get(role) ? allColumns : columnGrants.get(role)!)].sort(),
+  ]));
+}
+
+// Columns clients must not read: who wrote anonymous content, and how votes were scored
+const HIDDEN_COLUMNS: Record<string, string[]> = {
+  posts: ['author_id'],
+  comments: ['author_id'],
+  votes: ['suspicion_score', 'suspicion_reasons', 'is_discounted'],
+};
+
+for (const [table, hidden] of Object.entries(HIDDEN_COLUMNS)) {
+  Deno.test(`clients can read every ${table} column except ${hidden.join(', ')}`, async () => {
+    const migrations = await readMigrations();
+    const columns = tableColumns(migrations, table);
+    const expected = [...columns].filter(name => !hidden.includes(name)).sort();
+
+    assertEquals(hidden.filter(name => !columns.has(name)), []);
+    assertEquals(readableColumns(migrations, table, columns), { anon: expected, authenticated: expected });
+  });
+}
@@ -0,0 +1,280 @@
+// Test double for the Supabase REST, RPC, auth and functions endpoints the edge functions call.
+// Tables are plain row arrays; filters cover the operators the functions use, and full-text
+// search and `or` filters match every row.
+
+export type Row = Record<string, unknown>;
+
+export interface FakeBackend {
+  tables: Record<string, Row[]>;
+  rpc: Record<string, (args: Row, request: Request) => unknown>;
+  // Access token -> user ID
+  users: Record<string, string>;
+  requests: Request[];
+}
+
+export const SUPABASE_URL = 'http://supabase.test';
+
+const IGNORED_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'on_conflict', 'columns', 'or']);
+
+export const COMMUNITY_ID = '00000000-0000-4000-8000-00000000c001';
+export const AUTHOR_ID = '00000000-0000-4000-8000-00000000a001';
+export const MODERATOR_ID = '00000000-0000-4000-8000-00000000a002';
+export const MEMBER_ID = '00000000-0000-4000-8000-00000000a003';
+
+type Handler = (request: Request) => Response | Promise<Response>;
+
+// Handlers passed to Deno.serve, in the order the functions were imported
+const servedHandlers: Handler[] = [];
+
+/**
+ * Points the Supabase clients at an in-memory backend and stops edge functions
+ * from listening. Call before importing a function's index.ts.
+ */
+export function installFakeBackend(): FakeBackend {
+  const backend: FakeBackend = { tables: {}, rpc: {}, users: {}, requests: [] };
+
+  Deno.env.set('SUPABASE_URL', SUPABASE_URL);
+  Deno.env.set('SUPABASE_ANON_KEY', 'anon-key');
+  Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key');
+
+  Object.assign(Deno, {
+    serve: (handler: Handler) => {
+      servedHandlers.push(handler);
+      return { finished: Promise.resolve(), shutdown: () => Promise.resolve() };
+    },
+  });
+
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) =>
+    handle(backend, new Request(input, init));
+
+  return backend;
+}
+
+// A public community with an author, one of its moderators and another member, signed in with
+// the tokens 'author', 'moderator' and 'member'. Profiles carry emails so a leak shows up.
+export function seedCommunity(backend: FakeBackend) {
+  const people = [
+    { id: AUTHOR_ID, token: 'author', role: 'member', name: 'Asha' },
+    { id: MODERATOR_ID, token: 'moderator', role: 'moderator', name: 'Mohan' },
+    { id: MEMBER_ID, token: 'member', role: 'member', name: 'Meera' },
+  ];
+
+  backend.tables.communities = [
+    { id: COMMUNITY_ID, name: 'kerala', privacy_type: 'public', anonymity_mode: 'community', is_active: true },
+  ];
+  backend.tables.profiles = people.map(person => ({
+    id: person.id,
+    display_name: person.name,
+    email: `${person.token}@example.com`,
+    is_moderator: false,
+    is_admin: false,
+  }));
+  backend.tables.memberships = people.map(person => ({
+    user_id: person.id,
+    community_id: COMMUNITY_ID,
+    role: person.role,
+    status: 'approved',
+  }));
+  backend.tables.anon_aliases = [
+    { user_id: AUTHOR_ID, community_id: COMMUNITY_ID, alias_name: 'Quiet-Heron-42' },
+  ];
+
+  for (const person of people) {
+    backend.users[person.token] = person.id;
+  }
+}
+
+// Imports an edge function, e.g. `() => import('./index.ts')`, and returns a caller for the
+// handler it passed to Deno.serve
+export async function serveFunction(importFunction: () => Promise<unknown>) {
+  const served = servedHandlers.length;
+  await importFunction();
+
+  const handler = servedHandlers[served];
+  if (!handler) throw new Error('The function did not call Deno.serve');
+
+  return async (token: string, body: unknown) => {
+    const response = await handler(new Request('http://function.test', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }));
+    return { status: response.status, body: await response.json() };
+  };
+}
+
+async function handle(backend: FakeBackend, request: Request): Promise<Response> {
+  backend.requests.push(request.clone());
+  const url = new URL(request.url);
+
+  if (url.pathname === '/auth/v1/user') {
+    const token = request.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const userId = backend.users[token];
+    return userId
+      ? json({ id: userId, aud: 'authenticated', role: 'authenticated' })
+      : json({ message: 'Invalid token' }, 401);
+  }
+
+  if (url.pathname.startsWith('/rest/v1/rpc/')) {
+    const name = url.pathname.slice('/rest/v1/rpc/'.length);
+    const rpc = backend.rpc[name];
+    if (!rpc) return json({ message: `Unknown function ${name}` }, 400);
+
+    const args = request.body ? await request.json() : {};
+    return json(await rpc(args, request) ?? null);
+  }
+
+  if (url.pathname.startsWith('/rest/v1/')) {
+    return await handleTable(backend, url.pathname.slice('/rest/v1/'.length), url, request);
+  }
+
+  if (url.pathname.startsWith('/functions/v1/')) {
+    return json({ success: true });
+  }
+
+  return json({ message: `Unexpected request to ${url.pathname}` }, 400);
+}
+
+async function handleTable(backend: FakeBackend, table: string, url: URL, request: Request) {
+  const rows = backend.tables[table] ??= [];
+  const prefer = request.headers.get('Prefer') ?? '';
+  const single = request.headers.get('Accept')?.startsWith('application/vnd.pgrst.object+json') ?? false;
+  const returnRows = request.method === 'GET' || prefer.includes('return=representation');
+
+  let result: Row[];
+  if (request.method === 'POST') {
+    const body = await request.json();
+    result = (Array.isArray(body) ? body : [body]).map(row => ({ id: crypto.randomUUID(), ...row }));
+    rows.push(...result);
+  } else if (request.method === 'PATCH') {
+    const changes = await request.json();
+    result = filterRows(rows, url.searchParams);
+    for (const row of result) Object.assign(row, changes);
+  } else if (request.method === 'DELETE') {
+    result = filterRows(rows, url.searchParams);
+    backend.tables[table] = rows.filter(row => !result.includes(row));
+  } else {
+    result = filterRows(rows, url.searchParams);
+  }
+
+  const total = result.length;
+  const offset = Number(url.searchParams.get('offset') ?? 0);
+  const limit = url.searchParams.has('limit') ? Number(url.searchParams.get('limit')) : undefined;
+  result = result.slice(offset, limit === undefined ? undefined : offset + limit);
+
+  const headers = { 'Content-Range': `${offset}-${offset + result.length}/${total}` };
+
+  if (request.method === 'HEAD' || !returnRows) {
+    return new Response(null, { status: request.method === 'POST' ? 201 : 204, headers });
+  }
+
+  const projected = result.map(row => project(backend, row, url.searchParams.get('select') ?? '*'));
+
+  if (single) {
+    if (projected.length !== 1) {
+      return json({ code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' }, 406);
+    }
+    return json(projected[0], 200, headers);
+  }
+
+  return json(projected, 200, headers);
+}
+
+function filterRows(rows: Row[], params: URLSearchParams) {
+  return rows.filter(row => {
+    for (const [column, filter] of params) {
+      if (IGNORED_PARAMS.has(column)) continue;
+      if (!matches(row[column], filter)) return false;
+    }
+    return true;
+  });
+}
+
+function matches(value: unknown, filter: string): boolean {
+  if (filter.startsWith('not.')) return !matches(value, filter.slice(4));
+
+  const dot = filter.indexOf('.');
+  const operator = filter.slice(0, dot);
+  const operand = filter.slice(dot + 1);
+  const text = value === null || value === undefined ? null : String(value);
+
+  switch (operator) {
+    case 'eq':
+      return text === operand;
+    case 'neq':
+      return text !== operand;
+    case 'in':
+      return text !== null && operand.slice(1, -1).split(',').map(item => item.replace(/^"|"$/g, '')).includes(text);
+    case 'is':
+      return operand === 'null' ? text === null : text === operand;
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      if (text === null) return false;
+      const compared = compare(text, operand);
+      return operator === 'gt' ? compared > 0
+        : operator === 'gte' ? compared >= 0
+        : operator === 'lt' ? compared < 0
+        : compared <= 0;
+    }
+    default:
+      // Full-text search and anything else this double doesn't model
+      return true;
+  }
+}
+
+function compare(left: string, right: string) {
+  const numbers = [Number(left), Number(right)];
+  if (numbers.every(Number.isFinite)) return numbers[0] - numbers[1];
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+// Picks the selected columns; `table(columns)` embeds the related row through `<table>_id`
+function project(backend: FakeBackend, row: Row, select: string): Row {
+  const projected: Row = {};
+
+  for (const field of splitFields(select)) {
+    const embed = field.match(/^(\w+)(?:!\w+)?\((.*)\)$/s);
+
+    if (field === '*') {
+      Object.assign(projected, row);
+    } else if (embed) {
+      const [, related, columns] = embed;
+      const foreignKey = `${related.replace(/s$/, '')}_id`;
+      const target = (backend.tables[related] ?? []).find(candidate => candidate.id === row[foreignKey]);
+      projected[related] = target ? project(backend, target, columns) : null;
+    } else {
+      projected[field] = row[field] ?? null;
+    }
+  }
+
+  return projected;
+}
+
+function splitFields(select: string) {
+  const fields: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of select) {
+    if (char === ',' && depth === 0) {
+      fields.push(current.trim());
+      current = '';
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
+
+  if (current.trim()) fields.push(current.trim());
+  return fields;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
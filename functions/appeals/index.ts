@@ -0,0 +1,367 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { assertCanModerate, getModeratedCommunityIds } from '../_shared/permissions.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+interface GetDecisionRequest {
+  action: 'get_decision';
+  target_type: 'post' | 'comment';
+  target_id: string;
+}
+
+interface SubmitAppealRequest {
+  action: 'submit';
+  target_type: 'post' | 'comment';
+  target_id: string;
+  justification: string;
+}
+
+interface ListAppealsRequest {
+  action: 'list';
+  community_id?: string;
+  limit?: number;
+}
+
+interface DecideAppealRequest {
+  action: 'decide';
+  appeal_id: string;
+  outcome: 'uphold' | 'overturn';
+  reason: string;
+}
+
+type AppealRequest = GetDecisionRequest | SubmitAppealRequest | ListAppealsRequest | DecideAppealRequest;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const requestData: AppealRequest = await req.json();
+
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    switch (requestData.action) {
+      case 'get_decision':
+        return await handleGetDecision(requestData, user.id);
+      case 'submit':
+        return await handleSubmitAppeal(requestData, user.id);
+      case 'list':
+        return await handleListAppeals(requestData, user.id);
+      case 'decide':
+        return await handleDecideAppeal(requestData, user.id);
+      default:
+        throw new Error('Invalid action');
+    }
+  } catch (error) {
+    console.error('Appeals API error:', error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  }
+});
+
+async function handleGetDecision(data: GetDecisionRequest, userId: string) {
+  const { target_type, target_id } = data;
+
+  const target = await getOwnRejectedContent(target_type, target_id, userId);
+
+  const { data: decision } = await supabase
+    .from('moderation_logs')
+    .select('action, reason, automated, explanation, created_at')
+    .eq('target_type', target_type)
+    .eq('target_id', target_id)
+    .in('action', ['reject', 'remove'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data: appeal } = await supabase
+    .from('moderation_appeals')
+    .select('id, status, decision_reason, decided_at, created_at')
+    .eq('target_type', target_type)
+    .eq('target_id', target_id)
+    .maybeSingle();
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      moderation_status: target.moderation_status,
+      decision: decision || null,
+      appeal: appeal || null,
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleSubmitAppeal(data: SubmitAppealRequest, userId: string) {
+  const { target_type, target_id, justification } = data;
+
+  if (!justification?.trim() || justification.trim().length < 10) {
+    throw new Error('Please explain why this decision should be reconsidered (at least 10 characters)');
+  }
+
+  if (justification.length > 1000) {
+    throw new Error('Justification too long (max 1000 characters)');
+  }
+
+  const target = await getOwnRejectedContent(target_type, target_id, userId);
+
+  const { data: existingAppeal } = await supabase
+    .from('moderation_appeals')
+    .select('id')
+    .eq('target_type', target_type)
+    .eq('target_id', target_id)
+    .maybeSingle();
+
+  if (existingAppeal) {
+    throw new Error('An appeal has already been filed for this content');
+  }
+
+  const { data: appeal, error: appealError } = await supabase
+    .from('moderation_appeals')
+    .insert({
+      target_type,
+      target_id,
+      author_id: userId,
+      community_id: target.community_id,
+      justification: justification.trim(),
+    })
+    .select()
+    .single();
+
+  if (appealError) throw appealError;
+
+  await logAppealAction(userId, target_type, target_id, 'appeal', justification.trim());
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      appeal_id: appeal.id,
+      message: 'Appeal submitted for moderator review',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleListAppeals(data: ListAppealsRequest, userId: string) {
+  const { community_id, limit = 50 } = data;
+
+  if (community_id) {
+    await assertCanModerate(supabase, userId, community_id);
+  }
+
+  let query = supabase
+    .from('appeals_queue')
+    .select('*')
+    .order('created_at', { ascending: true })
+    .limit(Math.min(limit, 100));
+
+  if (community_id) {
+    query = query.eq('community_id', community_id);
+  } else {
+    const moderatedCommunities = await getModeratedCommunityIds(supabase, userId);
+    if (moderatedCommunities) {
+      query = query.in('community_id', moderatedCommunities);
+    }
+  }
+
+  const { data: appeals, error } = await query;
+
+  if (error) throw error;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      appeals: appeals || [],
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleDecideAppeal(data: DecideAppealRequest, userId: string) {
+  const { appeal_id, outcome, reason } = data;
+
+  if (!['uphold', 'overturn'].includes(outcome)) {
+    throw new Error('Appeal outcome must be uphold or overturn');
+  }
+
+  if (!reason?.trim()) {
+    throw new Error('A reason is required for appeal decisions');
+  }
+
+  const { data: appeal } = await supabase
+    .from('moderation_appeals')
+    .select('*')
+    .eq('id', appeal_id)
+    .single();
+
+  if (!appeal) {
+    throw new Error('Appeal not found');
+  }
+
+  if (appeal.status !== 'pending') {
+    throw new Error('This appeal has already been decided');
+  }
+
+  await assertCanModerate(supabase, userId, appeal.community_id);
+
+  if (appeal.author_id === userId) {
+    throw new Error('You cannot decide an appeal on your own content');
+  }
+
+  const now = new Date().toISOString();
+
+  if (outcome === 'overturn') {
+    // Restore the content as if it had been approved in the first place
+    const { error: restoreError } = await supabase
+      .from(appeal.target_type === 'post' ? 'posts' : 'comments')
+      .update({
+        is_approved: true,
+        is_removed: false,
+        moderation_status: 'approved',
+        approved_by: userId,
+        approved_at: now,
+        updated_at: now,
+      })
+      .eq('id', appeal.target_id);
+
+    if (restoreError) throw restoreError;
+  }
+
+  const { error: updateError } = await supabase
+    .from('moderation_appeals')
+    .update({
+      status: outcome === 'overturn' ? 'overturned' : 'upheld',
+      decided_by: userId,
+      decided_at: now,
+      decision_reason: reason.trim(),
+    })
+    .eq('id', appeal_id);
+
+  if (updateError) throw updateError;
+
+  await logAppealAction(userId, appeal.target_type, appeal.target_id, outcome, reason.trim());
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message: outcome === 'overturn'
+        ? 'Appeal accepted and content restored'
+        : 'Appeal rejected; the original decision stands',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+// Authors can only see and appeal decisions on their own rejected content
+async function getOwnRejectedContent(targetType: string, targetId: string, userId: string) {
+  if (!['post', 'comment'].includes(targetType) || !targetId) {
+    throw new Error('A post or comment is required');
+  }
+
+  let target: { author_id: string; community_id: string; moderation_status: string } | null = null;
+
+  if (targetType === 'post') {
+    const { data: post } = await supabase
+      .from('posts')
+      .select('author_id, community_id, moderation_status')
+      .eq('id', targetId)
+      .single();
+
+    target = post;
+  } else {
+    const { data: comment } = await supabase
+      .from('comments')
+      .select('author_id, moderation_status, posts!inner(community_id)')
+      .eq('id', targetId)
+      .single();
+
+    if (comment) {
+      target = {
+        author_id: comment.author_id,
+        community_id: (comment.posts as any).community_id,
+        moderation_status: comment.moderation_status,
+      };
+    }
+  }
+
+  if (!target || target.author_id !== userId) {
+    throw new Error('Content not found');
+  }
+
+  if (target.moderation_status !== 'rejected') {
+    throw new Error('Only rejected content can be appealed');
+  }
+
+  return target;
+}
+
+async function logAppealAction(
+  actorId: string,
+  targetType: string,
+  targetId: string,
+  action: 'appeal' | 'uphold' | 'overturn',
+  reason: string
+) {
+  const { error } = await supabase
+    .from('moderation_logs')
+    .insert({
+      moderator_id: actorId,
+      target_type: targetType,
+      target_id: targetId,
+      action,
+      reason,
+      automated: false,
+    });
+
+  if (error) throw error;
+}
@@ -0,0 +1,341 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { ATTACHMENTS_BUCKET } from '../_shared/attachments.ts';
+import { assertNotBanned } from '../_shared/bans.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { assertCanModerate, canViewCommunity } from '../_shared/permissions.ts';
+import { checkRateLimit } from '../_shared/rate-limit.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const MB = 1024 * 1024;
+
+// Maximum size per MIME type; the storage bucket enforces the same list and a 25 MB ceiling
+const ALLOWED_TYPES: Record<string, number> = {
+  'image/jpeg': 10 * MB,
+  'image/png': 10 * MB,
+  'image/gif': 10 * MB,
+  'image/webp': 10 * MB,
+  'application/pdf': 25 * MB,
+  'text/plain': 1 * MB,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 25 * MB,
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 25 * MB,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 25 * MB,
+};
+
+// Download links are short-lived so access follows membership changes
+const DOWNLOAD_URL_TTL_SECONDS = 300;
+
+interface RequestUploadRequest {
+  action: 'request_upload';
+  community_id: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+}
+
+interface GetUrlRequest {
+  action: 'get_url';
+  attachment_id: string;
+}
+
+interface QuarantineRequest {
+  action: 'quarantine' | 'release';
+  attachment_id: string;
+  reason: string;
+}
+
+type AttachmentRequest = RequestUploadRequest | GetUrlRequest | QuarantineRequest;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const requestData: AttachmentRequest = await req.json();
+
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    switch (requestData.action) {
+      case 'request_upload':
+        return await handleRequestUpload(requestData, user.id);
+      case 'get_url':
+        return await handleGetUrl(requestData, user.id);
+      case 'quarantine':
+      case 'release':
+        return await handleQuarantine(requestData, user.id);
+      default:
+        throw new Error('Invalid action');
+    }
+  } catch (error) {
+    console.error('Attachments API error:', error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  }
+});
+
+async function handleRequestUpload(data: RequestUploadRequest, userId: string) {
+  const { community_id, file_name, mime_type, size_bytes } = data;
+
+  if (!community_id || !file_name?.trim()) {
+    throw new Error('Community ID and file name are required');
+  }
+
+  if (file_name.trim().length > 255) {
+    throw new Error('File name too long (max 255 characters)');
+  }
+
+  const maxSize = ALLOWED_TYPES[mime_type];
+  if (!maxSize) {
+    throw new Error('Only images, PDFs, text files and Office documents can be attached');
+  }
+
+  if (!Number.isInteger(size_bytes) || size_bytes <= 0) {
+    throw new Error('File size must be a positive number of bytes');
+  }
+
+  if (size_bytes > maxSize) {
+    throw new Error(`File too large (max ${maxSize / MB} MB for this type)`);
+  }
+
+  await assertNotBanned(supabase, userId, community_id);
+
+  // Check if user is member of community
+  const { data: membership } = await supabase
+    .from('memberships')
+    .select('status')
+    .eq('user_id', userId)
+    .eq('community_id', community_id)
+    .single();
+
+  if (!membership || membership.status !== 'approved') {
+    throw new Error('You must be a member of this community to upload files');
+  }
+
+  const rateLimited = await checkRateLimit(supabase, userId, 'upload', community_id);
+  if (rateLimited) return rateLimited;
+
+  const attachmentId = crypto.randomUUID();
+  const safeName = file_name.trim().replace(/[^A-Za-z0-9._-]+/g, '_').slice(-100);
+  const storagePath = `${community_id}/${userId}/${attachmentId}/${safeName}`;
+
+  const { error: insertError } = await supabase
+    .from('attachments')
+    .insert({
+      id: attachmentId,
+      uploader_id: userId,
+      community_id,
+      storage_path: storagePath,
+      file_name: file_name.trim(),
+      mime_type,
+      size_bytes,
+    });
+
+  if (insertError) throw insertError;
+
+  const { data: upload, error: uploadError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUploadUrl(storagePath);
+
+  if (uploadError) throw uploadError;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      attachment_id: attachmentId,
+      upload_url: upload.signedUrl,
+      token: upload.token,
+      path: storagePath,
+      message: 'Upload the file, then pass the attachment ID when creating your post or comment',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleGetUrl(data: GetUrlRequest, userId: string) {
+  const { attachment_id } = data;
+
+  const attachment = await getAttachment(attachment_id);
+
+  // Uploaders and readers of the content get the file; anyone else must moderate the community.
+  // Quarantined files are only served to moderators.
+  const canRead = !attachment.quarantined_at
+    && (attachment.uploader_id === userId || await isVisibleToReader(attachment, userId));
+
+  if (!canRead) {
+    try {
+      await assertCanModerate(supabase, userId, attachment.community_id);
+    } catch {
+      throw new Error('Attachment not found or not accessible');
+    }
+  }
+
+  const { data: signed, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(attachment.storage_path, DOWNLOAD_URL_TTL_SECONDS);
+
+  if (error) throw error;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      url: signed.signedUrl,
+      expires_in: DOWNLOAD_URL_TTL_SECONDS,
+      file_name: attachment.file_name,
+      mime_type: attachment.mime_type,
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleQuarantine(data: QuarantineRequest, userId: string) {
+  const { action, attachment_id, reason } = data;
+
+  if (!reason?.trim()) {
+    throw new Error('A reason is required for moderation decisions');
+  }
+
+  const attachment = await getAttachment(attachment_id);
+
+  await assertCanModerate(supabase, userId, attachment.community_id);
+
+  if (action === 'quarantine' && attachment.quarantined_at) {
+    throw new Error('This attachment is already quarantined');
+  }
+
+  if (action === 'release' && !attachment.quarantined_at) {
+    throw new Error('This attachment is not quarantined');
+  }
+
+  const { error: updateError } = await supabase
+    .from('attachments')
+    .update(action === 'quarantine'
+      ? {
+        quarantined_at: new Date().toISOString(),
+        quarantined_by: userId,
+        quarantine_reason: reason.trim(),
+      }
+      : {
+        quarantined_at: null,
+        quarantined_by: null,
+        quarantine_reason: null,
+      })
+    .eq('id', attachment_id);
+
+  if (updateError) throw updateError;
+
+  const { error: logError } = await supabase
+    .from('moderation_logs')
+    .insert({
+      moderator_id: userId,
+      target_type: 'attachment',
+      target_id: attachment_id,
+      action,
+      reason: reason.trim(),
+      automated: false,
+    });
+
+  if (logError) throw logError;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message: action === 'quarantine' ? 'Attachment quarantined' : 'Attachment released',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+interface Attachment {
+  id: string;
+  uploader_id: string;
+  community_id: string;
+  target_type: 'post' | 'comment' | null;
+  target_id: string | null;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  quarantined_at: string | null;
+}
+
+async function getAttachment(attachmentId: string): Promise<Attachment> {
+  const { data: attachment } = await supabase
+    .from('attachments')
+    .select('id, uploader_id, community_id, target_type, target_id, storage_path, file_name, mime_type, quarantined_at')
+    .eq('id', attachmentId)
+    .single();
+
+  if (!attachment) {
+    throw new Error('Attachment not found or not accessible');
+  }
+
+  return attachment;
+}
+
+// Files follow their post or comment: approved, not deleted, and in a community the user can read
+async function isVisibleToReader(attachment: Attachment, userId: string): Promise<boolean> {
+  if (!attachment.target_id) return false;
+
+  if (attachment.target_type === 'post') {
+    const { data: post } = await supabase
+      .from('posts_with_stats')
+      .select('is_approved, is_deleted')
+      .eq('id', attachment.target_id)
+      .single();
+
+    if (!post || !post.is_approved || post.is_deleted) return false;
+  } else {
+    const { data: comment } = await supabase
+      .from('comments')
+      .select('is_approved, is_removed, deleted_at')
+      .eq('id', attachment.target_id)
+      .single();
+
+    if (!comment || !comment.is_approved || comment.is_removed || comment.deleted_at) return false;
+  }
+
+  return await canViewCommunity(supabase, userId, attachment.community_id);
+}
@@ -0,0 +1,97 @@
+import { deepStrictEqual as assertEquals } from 'node:assert';
+import {
+  AUTHOR_ID,
+  COMMUNITY_ID,
+  installFakeBackend,
+  MEMBER_ID,
+  seedCommunity,
+  serveFunction,
+} from '../_shared/test-backend.ts';
+
+const PRIVATE_COMMUNITY_ID = '00000000-0000-4000-8000-00000000c002';
+const POST_ID = '00000000-0000-4000-8000-0000000b0001';
+const PRIVATE_POST_ID = '00000000-0000-4000-8000-0000000b0002';
+const COMMENT_ID = '00000000-0000-4000-8000-0000000d0001';
+const PRIVATE_COMMENT_ID = '00000000-0000-4000-8000-0000000d0002';
+
+const backend = installFakeBackend();
+seedCommunity(backend);
+
+backend.tables.communities.push({ id: PRIVATE_COMMUNITY_ID, name: 'staff-room', privacy_type: 'private' });
+backend.tables.memberships.push({
+  user_id: AUTHOR_ID,
+  community_id: PRIVATE_COMMUNITY_ID,
+  role: 'member',
+  status: 'approved',
+});
+
+backend.tables.posts = [
+  { id: POST_ID, community_id: COMMUNITY_ID, author_id: MEMBER_ID, is_anonymous: false, alias_scope: 'community' },
+  { id: PRIVATE_POST_ID, community_id: PRIVATE_COMMUNITY_ID, author_id: AUTHOR_ID, is_anonymous: false },
+];
+const publicComment = {
+  id: COMMENT_ID,
+  post_id: POST_ID,
+  parent_id: null,
+  author_id: AUTHOR_ID,
+  content: 'Posted without my name',
+  content_html: '<p>Posted without my name</p>',
+  is_anonymous: true,
+  is_approved: true,
+  is_removed: false,
+  vote_score: 3,
+  depth: 0,
+  created_at: '2025-11-01T10:00:00Z',
+  edited_at: null,
+  deleted_at: null,
+  deletion_type: null,
+};
+backend.tables.comments = [
+  publicComment,
+  { ...publicComment, id: PRIVATE_COMMENT_ID, post_id: PRIVATE_POST_ID, content: 'Staff only' },
+];
+backend.rpc.get_comment_tree = () => [
+  { id: COMMENT_ID, parent_id: null, level: 0, sort_key: 1, reply_count: 0, sibling_count: 1 },
+];
+
+const callComments = await serveFunction(() => import('./index.ts'));
+
+const requests = {
+  get: { action: 'get', post_id: POST_ID },
+  continue_thread: { action: 'continue_thread', comment_id: COMMENT_ID },
+};
+
+async function commentFor(token: string, request: keyof typeof requests) {
+  const { status, body } = await callComments(token, requests[request]);
+  assertEquals(status, 200);
+
+  const comment = request === 'get' ? body.comments[0] : body.comment;
+  return { comment, serialized: JSON.stringify(body) };
+}
+
+for (const request of Object.keys(requests) as (keyof typeof requests)[]) {
+  Deno.test(`${request}: anonymous comments show their author only to the author and moderators`, async () => {
+    const forAuthor = await commentFor('author', request);
+    const forModerator = await commentFor('moderator', request);
+    const forMember = await commentFor('member', request);
+
+    assertEquals([forAuthor.comment.author_id, forAuthor.comment.is_own], [AUTHOR_ID, true]);
+    assertEquals([forModerator.comment.author_id, forModerator.comment.is_own], [AUTHOR_ID, false]);
+    assertEquals([forMember.comment.author_id, forMember.comment.is_own], [null, false]);
+
+    for (const { comment, serialized } of [forAuthor, forModerator, forMember]) {
+      assertEquals(comment.author_display_name, 'Quiet-Heron-42');
+      assertEquals(serialized.includes('@example.com'), false);
+    }
+
+    assertEquals(forMember.serialized.includes(AUTHOR_ID), false);
+  });
+}
+
+Deno.test('comments in private communities are hidden from non-members', async () => {
+  const page = await callComments('member', { action: 'get', post_id: PRIVATE_POST_ID });
+  const thread = await callComments('member', { action: 'continue_thread', comment_id: PRIVATE_COMMENT_ID });
+
+  assertEquals(page.body, { error: 'Post not found or not accessible' });
+  assertEquals(thread.body, { error: 'Comment not found or not accessible' });
+});
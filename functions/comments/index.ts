@@ -1,25 +1,85 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { assertAttachable, attachUploads, getAttachmentSummaries } from '../_shared/attachments.ts';
+import { ensureAnonymousAlias, loadViewer, serializeAuthored, Viewer } from '../_shared/anonymity.ts';
+import { assertNotBanned } from '../_shared/bans.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { assertMinimumKarma } from '../_shared/karma.ts';
+import { renderMarkdown } from '../_shared/markdown.ts';
+import { loadModerationPolicy } from '../_shared/moderation-policy.ts';
+import { getEditModerationStatus } from '../_shared/moderation-status.ts';
+import { assertCanModerate, canViewCommunity } from '../_shared/permissions.ts';
+import { checkRateLimit } from '../_shared/rate-limit.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+const COMMENT_SORTS = ['best', 'top', 'new', 'old', 'controversial'] as const;
+type CommentSort = typeof COMMENT_SORTS[number];
+
+// Responses stop MAX_TREE_DEPTH levels below where they start; the client opens deeper
+// branches with continue_thread, so replies can nest far deeper than one response shows
+const MAX_COMMENT_DEPTH = 100;
+const TOP_LEVEL_PAGE_SIZE = 20;
+const REPLY_PAGE_SIZE = 5;
+const MAX_TREE_DEPTH = 4;
+const MAX_TREE_COMMENTS = 500;
+
 interface CreateCommentRequest {
   action: 'create';
   content: string;
   post_id: string;
   parent_id?: string;
   is_anonymous: boolean;
+  attachment_ids?: string[];
 }
 
 interface GetCommentsRequest {
   action: 'get';
   post_id: string;
+  sort?: CommentSort;
+  cursor?: string;
+}
+
+interface ContinueThreadRequest {
+  action: 'continue_thread';
+  comment_id: string;
+  sort?: CommentSort;
+}
+
+interface EditCommentRequest {
+  action: 'edit';
+  comment_id: string;
+  content: string;
+}
+
+interface DeleteCommentRequest {
+  action: 'delete';
+  comment_id: string;
+  reason?: string;
+}
+
+type CommentRequest =
+  | CreateCommentRequest
+  | GetCommentsRequest
+  | ContinueThreadRequest
+  | EditCommentRequest
+  | DeleteCommentRequest;
+
+interface CommentTreeRow {
+  id: string;
+  parent_id: string | null;
+  level: number;
+  sort_key: number;
+  reply_count: number;
+  sibling_count: number;
 }
 
-type CommentRequest = CreateCommentRequest | GetCommentsRequest;
+const TOMBSTONES = {
+  author: '[deleted]',
+  moderator: '[removed by moderator]',
+};
 
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
@@ -50,6 +110,12 @@ Deno.serve(async (req: Request) => {
       return await handleCreateComment(requestData, user.id);
     } else if (requestData.action === 'get') {
       return await handleGetComments(requestData, user.id);
+    } else if (requestData.action === 'continue_thread') {
+      return await handleContinueThread(requestData, user.id);
+    } else if (requestData.action === 'edit') {
+      return await handleEditComment(requestData, user.id);
+    } else if (requestData.action === 'delete') {
+      return await handleDeleteComment(requestData, user.id);
     }
 
     throw new Error('Invalid action');
@@ -71,7 +137,7 @@ Deno.serve(async (req: Request) => {
 });
 
 async function handleCreateComment(data: CreateCommentRequest, userId: string) {
-  const { content, post_id, parent_id, is_anonymous } = data;
+  const { content, post_id, parent_id, is_anonymous, attachment_ids = [] } = data;
 
   // Validate input
   if (!content.trim() || !post_id) {
@@ -85,7 +151,7 @@ async function handleCreateComment(data: CreateCommentRequest, userId: string) {
   // Check if post exists and user can access it
   const { data: post } = await supabase
     .from('posts_with_stats')
-    .select('id, community_id')
+    .select('id, community_id, is_deleted, alias_scope')
     .eq('id', post_id)
     .single();
 
@@ -93,6 +159,12 @@ async function handleCreateComment(data: CreateCommentRequest, userId: string) {
     throw new Error('Post not found or not accessible');
   }
 
+  if (post.is_deleted) {
+    throw new Error('This post has been deleted');
+  }
+
+  await assertNotBanned(supabase, userId, post.community_id);
+
   // Check if user is member of the community
   const { data: membership } = await supabase
     .from('memberships')
@@ -105,12 +177,20 @@ async function handleCreateComment(data: CreateCommentRequest, userId: string) {
     throw new Error('You must be a member of this community to comment');
   }
 
+  const policy = await loadModerationPolicy(supabase, post.community_id);
+  await assertMinimumKarma(supabase, userId, post.community_id, policy.min_comment_karma, 'comment');
+
+  const rateLimited = await checkRateLimit(supabase, userId, 'comment', post.community_id);
+  if (rateLimited) return rateLimited;
+
+  await assertAttachable(supabase, userId, post.community_id, 'comment', attachment_ids);
+
   // Calculate comment depth if it's a reply
   let depth = 0;
   if (parent_id) {
     const { data: parentComment } = await supabase
       .from('comments')
-      .select('depth')
+      .select('depth, deleted_at')
       .eq('id', parent_id)
       .single();
 
@@ -118,10 +198,14 @@ async function handleCreateComment(data: CreateCommentRequest, userId: string) {
       throw new Error('Parent comment not found');
     }
 
+    if (parentComment.deleted_at) {
+      throw new Error('You cannot reply to a deleted comment');
+    }
+
     depth = parentComment.depth + 1;
     
     // Limit nesting depth
-    if (depth > 5) {
+    if (depth > MAX_COMMENT_DEPTH) {
       throw new Error('Maximum comment nesting depth reached');
     }
   }
@@ -131,6 +215,7 @@ async function handleCreateComment(data: CreateCommentRequest, userId: string) {
     .from('comments')
     .insert({
       content: content.trim(),
+      content_html: renderMarkdown(content.trim()).html,
       author_id: userId,
       post_id,
       parent_id: parent_id || null,
@@ -143,13 +228,20 @@ async function handleCreateComment(data: CreateCommentRequest, userId: string) {
 
   if (commentError) throw commentError;
 
+  await attachUploads(supabase, 'comment', comment.id, attachment_ids);
+
   // Generate anonymous alias if needed
   if (is_anonymous) {
-    await generateAnonymousAlias(userId, post.community_id);
+    await ensureAnonymousAlias(
+      supabase,
+      userId,
+      post.alias_scope,
+      post.alias_scope === 'thread' ? post_id : post.community_id
+    );
   }
 
   // Trigger moderation check
-  await triggerModerationCheck(comment.id, 'comment', content);
+  await triggerModerationCheck(comment.id, 'comment');
 
   return new Response(
     JSON.stringify({
@@ -167,42 +259,359 @@ async function handleCreateComment(data: CreateCommentRequest, userId: string) {
 }
 
 async function handleGetComments(data: GetCommentsRequest, userId: string) {
-  const { post_id } = data;
+  const { post_id, cursor } = data;
+  const sort = parseSort(data.sort);
 
-  // Get comments with author info (respecting anonymity)
-  const { data: comments, error } = await supabase
+  if (!post_id) {
+    throw new Error('Post ID is required');
+  }
+
+  if (!await canViewPost(post_id, userId)) {
+    throw new Error('Post not found or not accessible');
+  }
+
+  // A cursor continues one level of the tree: the top-level comments or one comment's replies
+  const page = cursor ? decodeCursor(cursor, sort) : { parentId: null, afterKey: null, afterId: null };
+
+  const viewer = await loadViewer(supabase, userId);
+  const { comments, nextCursor, remaining } = await loadCommentTree(post_id, sort, page.parentId, page, viewer);
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      sort,
+      parent_id: page.parentId,
+      comments,
+      next_cursor: nextCursor,
+      remaining_count: remaining,
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleContinueThread(data: ContinueThreadRequest, userId: string) {
+  const { comment_id } = data;
+  const sort = parseSort(data.sort);
+
+  if (!comment_id) {
+    throw new Error('Comment ID is required');
+  }
+
+  const { data: root } = await supabase
     .from('comments')
-    .select(`
-      id,
-      content,
-      author_id,
-      parent_id,
-      is_anonymous,
-      vote_score,
-      depth,
-      created_at,
-      profiles!comments_author_id_fkey(display_name),
-      anon_aliases!left(alias_name)
-    `)
-    .eq('post_id', post_id)
-    .eq('is_approved', true)
-    .eq('is_removed', false)
-    .order('created_at', { ascending: true });
+    .select('post_id, is_approved, is_removed')
+    .eq('id', comment_id)
+    .single();
+
+  if (!root || !root.is_approved || root.is_removed || !await canViewPost(root.post_id, userId)) {
+    throw new Error('Comment not found or not accessible');
+  }
+
+  const viewer = await loadViewer(supabase, userId);
+  const [comment] = await formatComments([comment_id], viewer);
+  const { comments: replies, nextCursor, remaining } = await loadCommentTree(
+    root.post_id,
+    sort,
+    comment_id,
+    { afterKey: null, afterId: null },
+    viewer
+  );
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      sort,
+      comment: {
+        ...comment,
+        replies,
+        reply_count: replies.length + remaining,
+        more_replies: nextCursor ? { count: remaining, cursor: nextCursor } : null,
+        continue_thread: false,
+      },
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+// Comments are only readable where their post is: public communities, or private ones the user belongs to
+async function canViewPost(postId: string, userId: string) {
+  const { data: post } = await supabase
+    .from('posts')
+    .select('community_id')
+    .eq('id', postId)
+    .single();
+
+  return !!post && await canViewCommunity(supabase, userId, post.community_id);
+}
+
+function parseSort(sort: CommentSort | undefined): CommentSort {
+  if (sort === undefined) return 'best';
+
+  if (!COMMENT_SORTS.includes(sort)) {
+    throw new Error('Sort must be best, top, new, old or controversial');
+  }
+
+  return sort;
+}
+
+// Cursors are base64 of "parent|sort|key|id" so a page of replies can be fetched on its own;
+// an empty key and ID start from the first reply
+function encodeCursor(parentId: string | null, sort: CommentSort, afterKey: number | null, afterId: string | null) {
+  return btoa([parentId ?? '', sort, afterKey ?? '', afterId ?? ''].join('|'));
+}
+
+function decodeCursor(cursor: string, sort: CommentSort) {
+  let parts: string[];
+  try {
+    parts = atob(cursor).split('|');
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  const [parentId, cursorSort, afterKey, afterId] = parts;
+  if (parts.length !== 4 || (afterId && (!afterKey || !Number.isFinite(Number(afterKey))))) {
+    throw new Error('Invalid cursor');
+  }
+
+  if (cursorSort !== sort) {
+    throw new Error('Cursor was created with a different sort');
+  }
+
+  return {
+    parentId: parentId || null,
+    afterKey: afterId ? Number(afterKey) : null,
+    afterId: afterId || null,
+  };
+}
+
+/**
+ * Loads one page of comments below `rootId` (or the top level) as a nested tree.
+ * Each comment carries up to a page of replies; the rest are reachable through
+ * its `more_replies` cursor, and comments past the depth limit are marked
+ * `continue_thread` so the client can open them with that action.
+ */
+async function loadCommentTree(
+  postId: string,
+  sort: CommentSort,
+  rootId: string | null,
+  after: { afterKey: number | null; afterId: string | null },
+  viewer: Viewer
+) {
+  const { data: rows, error } = await supabase.rpc('get_comment_tree', {
+    p_post_id: postId,
+    p_sort: sort,
+    p_root_id: rootId,
+    p_after_key: after.afterKey,
+    p_after_id: after.afterId,
+    p_page_size: TOP_LEVEL_PAGE_SIZE,
+    p_reply_page_size: REPLY_PAGE_SIZE,
+    p_max_depth: MAX_TREE_DEPTH,
+    p_max_comments: MAX_TREE_COMMENTS,
+  });
 
   if (error) throw error;
 
-  // Format comments with proper author names
-  const formattedComments = comments?.map(comment => ({
-    ...comment,
-    author_display_name: comment.is_anonymous 
-      ? (comment.anon_aliases?.alias_name || 'Anonymous')
-      : comment.profiles?.display_name,
-  })) || [];
+  const treeRows: CommentTreeRow[] = rows || [];
+  const rowsById = new Map(treeRows.map(row => [row.id, row]));
+  const formatted = await formatComments(treeRows.map(row => row.id), viewer);
+  const commentsById = new Map(formatted.map(comment => [comment.id, comment]));
+
+  // Rows come level by level, best first, so replies are appended in order
+  const nodes = new Map<string, any>();
+  const topLevel: any[] = [];
+
+  for (const row of treeRows) {
+    const comment = commentsById.get(row.id);
+    if (!comment) continue;
+
+    const node = {
+      ...comment,
+      replies: [] as any[],
+      reply_count: row.reply_count,
+      more_replies: null,
+      continue_thread: false,
+    };
+    nodes.set(row.id, node);
+
+    if (row.level === 0) {
+      topLevel.push(node);
+    } else {
+      nodes.get(row.parent_id!)?.replies.push(node);
+    }
+  }
+
+  for (const [id, node] of nodes) {
+    const row = rowsById.get(id)!;
+
+    if (row.level === MAX_TREE_DEPTH && row.reply_count > 0) {
+      node.continue_thread = true;
+    } else if (node.replies.length < row.reply_count) {
+      const last = node.replies[node.replies.length - 1];
+      node.more_replies = {
+        count: row.reply_count - node.replies.length,
+        cursor: last
+          ? encodeCursor(id, sort, rowsById.get(last.id)!.sort_key, last.id)
+          : encodeCursor(id, sort, null, null),
+      };
+    }
+  }
+
+  // The first level's sibling count is everything from the cursor on, so the rest is what this page left out
+  const firstLevelRows = treeRows.filter(row => row.level === 0);
+  const lastTop = firstLevelRows[firstLevelRows.length - 1];
+  const remaining = lastTop ? lastTop.sibling_count - firstLevelRows.length : 0;
+  const nextCursor = remaining > 0 ? encodeCursor(rootId, sort, lastTop.sort_key, lastTop.id) : null;
+
+  return { comments: topLevel, nextCursor, remaining };
+}
+
+// Deleted comments stay in place as tombstones; author fields go through the anonymity serializer.
+// The OP marker is only set when the comment and the post share their anonymity, so it never
+// links a named post to an anonymous comment or the other way round.
+async function formatComments(commentIds: string[], viewer: Viewer): Promise<any[]> {
+  const comments: any[] = [];
+
+  // Keep the ID lists in request URLs short
+  for (let i = 0; i < commentIds.length; i += 100) {
+    const ids = commentIds.slice(i, i + 100);
+
+    const { data: chunk, error } = await supabase
+      .from('comments')
+      .select(`
+        id,
+        content,
+        content_html,
+        author_id,
+        post_id,
+        parent_id,
+        is_anonymous,
+        vote_score,
+        depth,
+        created_at,
+        edited_at,
+        deleted_at,
+        deletion_type,
+        posts!inner(community_id, author_id, is_anonymous, alias_scope)
+      `)
+      .in('id', ids);
+
+    if (error) throw error;
+
+    const attachments = await getAttachmentSummaries(supabase, 'comment', ids);
+
+    for (const { posts, ...comment } of chunk || []) {
+      const post = posts as any;
+      const thread = { community_id: post.community_id, alias_scope: post.alias_scope };
+
+      if (comment.deleted_at) {
+        const tombstoneText = TOMBSTONES[comment.deletion_type as keyof typeof TOMBSTONES] ?? TOMBSTONES.author;
+        comments.push({
+          ...comment,
+          ...thread,
+          content: tombstoneText,
+          content_html: `<p>${tombstoneText}</p>`,
+          author_id: null,
+          attachments: [],
+          is_deleted: true,
+          is_op: false,
+        });
+        continue;
+      }
+
+      comments.push({
+        ...comment,
+        ...thread,
+        attachments: attachments.get(comment.id) ?? [],
+        is_deleted: false,
+        is_op: comment.author_id === post.author_id && comment.is_anonymous === post.is_anonymous,
+      });
+    }
+  }
+
+  return await serializeAuthored(supabase, comments, viewer);
+}
+
+async function handleEditComment(data: EditCommentRequest, userId: string) {
+  const { comment_id, content } = data;
+
+  // Validate input
+  if (!comment_id || !content?.trim()) {
+    throw new Error('Comment ID and content are required');
+  }
+
+  if (content.length > 5000) {
+    throw new Error('Comment too long (max 5000 characters)');
+  }
+
+  const { data: comment } = await supabase
+    .from('comments')
+    .select('content, author_id, is_removed, deleted_at, moderation_status, posts!inner(community_id)')
+    .eq('id', comment_id)
+    .single();
+
+  if (!comment || comment.is_removed || comment.deleted_at) {
+    throw new Error('Comment not found');
+  }
+
+  if (comment.author_id !== userId) {
+    throw new Error('You can only edit your own comments');
+  }
+
+  if (content.trim() === comment.content) {
+    throw new Error('No changes to save');
+  }
+
+  await assertNotBanned(supabase, userId, (comment.posts as any).community_id);
+
+  // Keep the previous version so moderators can review what changed
+  const { error: revisionError } = await supabase
+    .from('content_revisions')
+    .insert({
+      target_type: 'comment',
+      target_id: comment_id,
+      content: comment.content,
+      edited_by: userId,
+    });
+
+  if (revisionError) throw revisionError;
+
+  const moderationStatus = await getEditModerationStatus(supabase, 'comment', comment_id, comment.moderation_status);
+
+  // Edited comments are hidden again until they pass moderation
+  const now = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from('comments')
+    .update({
+      content: content.trim(),
+      content_html: renderMarkdown(content.trim()).html,
+      is_approved: false,
+      moderation_status: moderationStatus,
+      edited_at: now,
+      updated_at: now,
+    })
+    .eq('id', comment_id);
+
+  if (updateError) throw updateError;
+
+  // Trigger moderation check
+  await triggerModerationCheck(comment_id, 'comment');
 
   return new Response(
     JSON.stringify({
       success: true,
-      comments: formattedComments,
+      comment_id,
+      edited_at: now,
+      message: 'Comment updated and resubmitted for moderation',
     }),
     {
       headers: {
@@ -213,35 +622,87 @@ async function handleGetComments(data: GetCommentsRequest, userId: string) {
   );
 }
 
-async function generateAnonymousAlias(userId: string, communityId: string) {
-  const { data: existingAlias } = await supabase
-    .from('anon_aliases')
-    .select('alias_name')
-    .eq('user_id', userId)
-    .eq('community_id', communityId)
+async function handleDeleteComment(data: DeleteCommentRequest, userId: string) {
+  const { comment_id, reason } = data;
+
+  const { data: comment } = await supabase
+    .from('comments')
+    .select('author_id, deleted_at, posts!inner(community_id)')
+    .eq('id', comment_id)
     .single();
 
-  if (!existingAlias) {
-    const aliasName = 'Anon-' + Math.random().toString(36).substring(2, 8).toUpperCase();
-    
-    await supabase
-      .from('anon_aliases')
+  if (!comment || comment.deleted_at) {
+    throw new Error('Comment not found');
+  }
+
+  // Authors delete their own comments; anyone else must moderate the community
+  const deletionType = comment.author_id === userId ? 'author' : 'moderator';
+
+  if (deletionType === 'moderator') {
+    await assertCanModerate(supabase, userId, (comment.posts as any).community_id);
+
+    if (!reason?.trim()) {
+      throw new Error('A reason is required when removing a comment');
+    }
+  }
+
+  // Soft delete so replies underneath remain visible
+  const now = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from('comments')
+    .update({
+      deleted_at: now,
+      deleted_by: userId,
+      deletion_type: deletionType,
+      updated_at: now,
+    })
+    .eq('id', comment_id);
+
+  if (updateError) throw updateError;
+
+  if (deletionType === 'moderator') {
+    const { error: logError } = await supabase
+      .from('moderation_logs')
       .insert({
-        user_id: userId,
-        community_id: communityId,
-        alias_name: aliasName,
+        moderator_id: userId,
+        target_type: 'comment',
+        target_id: comment_id,
+        action: 'remove',
+        reason: reason!.trim(),
+        automated: false,
       });
+
+    if (logError) throw logError;
   }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message: deletionType === 'author' ? 'Comment deleted' : 'Comment removed',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
 }
 
-async function triggerModerationCheck(contentId: string, contentType: string, content: string) {
+async function triggerModerationCheck(contentId: string, contentType: 'post' | 'comment') {
+  // The job row is the durable record; if the kick below is lost the sweeper picks it up
+  const { data: jobId, error } = await supabase.rpc('enqueue_moderation_job', {
+    p_content_type: contentType,
+    p_content_id: contentId,
+  });
+
+  if (error) throw error;
+
   try {
     await supabase.functions.invoke('moderation', {
       body: {
-        content,
-        content_type: contentType,
-        content_id: contentId,
-        author_id: 'system',
+        action: 'process_queue',
+        job_id: jobId,
       },
     });
   } catch (error) {
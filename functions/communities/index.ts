@@ -1,16 +1,24 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { ALIAS_SCOPES, AliasScope } from '../_shared/anonymity.ts';
+import { assertNotBanned } from '../_shared/bans.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { loadModerationPolicy, mergeModerationPolicy, ModerationPolicy } from '../_shared/moderation-policy.ts';
+import { checkRateLimit } from '../_shared/rate-limit.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+const DEFAULT_LEADERBOARD_SIZE = 25;
+const MAX_LEADERBOARD_SIZE = 100;
+
 interface CreateCommunityRequest {
   action: 'create';
   name: string;
   description: string;
   privacy_type: 'public' | 'private';
+  anonymity_mode?: AliasScope;
 }
 
 interface JoinCommunityRequest {
@@ -24,7 +32,37 @@ interface ApproveMembershipRequest {
   approve: boolean;
 }
 
-type CommunityRequest = CreateCommunityRequest | JoinCommunityRequest | ApproveMembershipRequest;
+interface GetModerationPolicyRequest {
+  action: 'get_moderation_policy';
+  community_id: string;
+}
+
+interface UpdateModerationPolicyRequest {
+  action: 'update_moderation_policy';
+  community_id: string;
+  policy: Partial<ModerationPolicy>;
+}
+
+interface UpdateSettingsRequest {
+  action: 'update_settings';
+  community_id: string;
+  anonymity_mode: AliasScope;
+}
+
+interface LeaderboardRequest {
+  action: 'leaderboard';
+  community_id: string;
+  limit?: number;
+}
+
+type CommunityRequest =
+  | CreateCommunityRequest
+  | JoinCommunityRequest
+  | ApproveMembershipRequest
+  | GetModerationPolicyRequest
+  | UpdateModerationPolicyRequest
+  | UpdateSettingsRequest
+  | LeaderboardRequest;
 
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
@@ -58,6 +96,14 @@ Deno.serve(async (req: Request) => {
         return await handleJoinCommunity(requestData, user.id);
       case 'approve_membership':
         return await handleApproveMembership(requestData, user.id);
+      case 'get_moderation_policy':
+        return await handleGetModerationPolicy(requestData, user.id);
+      case 'update_moderation_policy':
+        return await handleUpdateModerationPolicy(requestData, user.id);
+      case 'update_settings':
+        return await handleUpdateSettings(requestData, user.id);
+      case 'leaderboard':
+        return await handleLeaderboard(requestData, user.id);
       default:
         throw new Error('Invalid action');
     }
@@ -79,7 +125,7 @@ Deno.serve(async (req: Request) => {
 });
 
 async function handleCreateCommunity(data: CreateCommunityRequest, userId: string) {
-  const { name, description, privacy_type } = data;
+  const { name, description, privacy_type, anonymity_mode = 'community' } = data;
 
   // Validate input
   if (!name.trim() || !description.trim()) {
@@ -98,6 +144,10 @@ async function handleCreateCommunity(data: CreateCommunityRequest, userId: strin
     throw new Error('Community name can only contain letters, numbers, and underscores');
   }
 
+  assertAnonymityMode(anonymity_mode);
+
+  await assertNotBanned(supabase, userId, null);
+
   // Check for existing community name
   const { data: existingCommunity } = await supabase
     .from('communities')
@@ -116,6 +166,7 @@ async function handleCreateCommunity(data: CreateCommunityRequest, userId: strin
       name: name.toLowerCase(),
       description: description.trim(),
       privacy_type,
+      anonymity_mode,
       owner_id: userId,
     })
     .select()
@@ -164,6 +215,8 @@ async function handleJoinCommunity(data: JoinCommunityRequest, userId: string) {
     throw new Error('Community not found');
   }
 
+  await assertNotBanned(supabase, userId, community_id);
+
   // Check if already a member
   const { data: existingMembership } = await supabase
     .from('memberships')
@@ -180,6 +233,9 @@ async function handleJoinCommunity(data: JoinCommunityRequest, userId: string) {
     }
   }
 
+  const rateLimited = await checkRateLimit(supabase, userId, 'join', community_id);
+  if (rateLimited) return rateLimited;
+
   // Determine membership status based on privacy
   const status = community.privacy_type === 'public' ? 'approved' : 'pending';
 
@@ -268,4 +324,188 @@ async function handleApproveMembership(data: ApproveMembershipRequest, userId: s
       },
     }
   );
-}
\ No newline at end of file
+}
+
+async function handleGetModerationPolicy(data: GetModerationPolicyRequest, userId: string) {
+  const { community_id } = data;
+
+  await assertCommunityAdmin(community_id, userId);
+
+  const policy = await loadModerationPolicy(supabase, community_id);
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      policy,
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleUpdateModerationPolicy(data: UpdateModerationPolicyRequest, userId: string) {
+  const { community_id, policy: policyUpdate } = data;
+
+  if (!policyUpdate || typeof policyUpdate !== 'object') {
+    throw new Error('Policy settings are required');
+  }
+
+  await assertCommunityAdmin(community_id, userId);
+
+  const currentPolicy = await loadModerationPolicy(supabase, community_id);
+  const policy = mergeModerationPolicy(currentPolicy, policyUpdate);
+
+  const { error } = await supabase
+    .from('community_moderation_policies')
+    .upsert({
+      community_id,
+      ...policy,
+      updated_by: userId,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      policy,
+      message: 'Moderation policy updated successfully',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+// Existing threads keep the mode they were posted under
+async function handleUpdateSettings(data: UpdateSettingsRequest, userId: string) {
+  const { community_id, anonymity_mode } = data;
+
+  assertAnonymityMode(anonymity_mode);
+
+  await assertCommunityAdmin(community_id, userId);
+
+  const { error } = await supabase
+    .from('communities')
+    .update({
+      anonymity_mode,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', community_id);
+
+  if (error) throw error;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      anonymity_mode,
+      message: 'Community settings updated successfully',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+// Anonymous content earns no karma, so the board never ties anyone to it
+async function handleLeaderboard(data: LeaderboardRequest, userId: string) {
+  const { community_id } = data;
+  const limit = Math.min(Math.max(Math.floor(Number(data.limit) || DEFAULT_LEADERBOARD_SIZE), 1), MAX_LEADERBOARD_SIZE);
+
+  const { data: community } = await supabase
+    .from('communities')
+    .select('privacy_type')
+    .eq('id', community_id)
+    .single();
+
+  if (!community) {
+    throw new Error('Community not found');
+  }
+
+  if (community.privacy_type === 'private') {
+    const { data: membership } = await supabase
+      .from('memberships')
+      .select('status')
+      .eq('user_id', userId)
+      .eq('community_id', community_id)
+      .single();
+
+    if (!membership || membership.status !== 'approved') {
+      throw new Error('You must be a member of this community to see its leaderboard');
+    }
+  }
+
+  const { data: rows, error } = await supabase
+    .from('community_karma')
+    .select('user_id, karma, post_karma, comment_karma, profiles!inner(display_name)')
+    .eq('community_id', community_id)
+    .gt('karma', 0)
+    .order('karma', { ascending: false })
+    .order('user_id', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+
+  const leaderboard = (rows || []).map((row, index) => ({
+    rank: index + 1,
+    user_id: row.user_id,
+    display_name: (row.profiles as any).display_name,
+    karma: row.karma,
+    post_karma: row.post_karma,
+    comment_karma: row.comment_karma,
+  }));
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      leaderboard,
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+function assertAnonymityMode(mode: string) {
+  if (!(ALIAS_SCOPES as readonly string[]).includes(mode)) {
+    throw new Error('Anonymity mode must be community or thread');
+  }
+}
+
+async function assertCommunityAdmin(communityId: string, userId: string) {
+  const { data: community } = await supabase
+    .from('communities')
+    .select('owner_id')
+    .eq('id', communityId)
+    .single();
+
+  if (!community) {
+    throw new Error('Community not found');
+  }
+
+  const { data: userMembership } = await supabase
+    .from('memberships')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('community_id', communityId)
+    .eq('status', 'approved')
+    .single();
+
+  if (community.owner_id !== userId && userMembership?.role !== 'admin') {
+    throw new Error('Only community admins can manage community settings');
+  }
+}
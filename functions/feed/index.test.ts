@@ -0,0 +1,48 @@
+import { deepStrictEqual as assertEquals } from 'node:assert';
+import { COMMUNITY_ID, installFakeBackend, seedCommunity, serveFunction } from '../_shared/test-backend.ts';
+
+const backend = installFakeBackend();
+seedCommunity(backend);
+
+// get_feed_posts has no author column; the feed must not add one
+const feedRow = {
+  id: '00000000-0000-4000-8000-0000000b0001',
+  title: 'Monsoon plans',
+  content: 'Where to stay in Munnar',
+  content_html: '<p>Where to stay in Munnar</p>',
+  author_display_name: 'Quiet-Heron-42',
+  community_id: COMMUNITY_ID,
+  community_name: 'kerala',
+  created_at: '2025-11-01T10:00:00Z',
+  vote_score: 3,
+  comment_count: 0,
+  is_anonymous: true,
+  user_vote: null,
+  edited_at: null,
+  post_type: 'text',
+  poll: null,
+  attachments: null,
+  link: null,
+  cursor: 'cursor-1',
+};
+
+const feedCallers: (string | null)[] = [];
+backend.rpc.get_feed_posts = (_args, request) => {
+  feedCallers.push(request.headers.get('Authorization'));
+  return [feedRow];
+};
+
+const callFeed = await serveFunction(() => import('./index.ts'));
+
+Deno.test('the feed reads as the caller and adds no author identity', async () => {
+  const { cursor: _cursor, ...expected } = feedRow;
+
+  for (const token of ['author', 'moderator', 'member']) {
+    const { status, body } = await callFeed(token, { feed: 'all' });
+
+    assertEquals(status, 200);
+    assertEquals(body.posts, [expected]);
+    assertEquals(JSON.stringify(body).includes('@example.com'), false);
+    assertEquals(feedCallers.at(-1), `Bearer ${token}`);
+  }
+});
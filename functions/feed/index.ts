@@ -0,0 +1,101 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+interface FeedRequest {
+  feed?: 'home' | 'all';
+  sort_by?: 'hot' | 'new' | 'rising' | 'top';
+  time_window?: 'day' | 'week' | 'month' | 'all';
+  cursor?: string;
+  limit?: number;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const { feed = 'home', sort_by = 'hot', time_window = 'day', cursor, limit = 20 }: FeedRequest = await req.json();
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    // The feed reads the caller's memberships and votes through auth.uid(), so query as the caller
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    if (!['home', 'all'].includes(feed)) {
+      throw new Error('Feed must be home or all');
+    }
+
+    if (!['hot', 'new', 'rising', 'top'].includes(sort_by)) {
+      throw new Error('Sort must be hot, new, rising or top');
+    }
+
+    if (!['day', 'week', 'month', 'all'].includes(time_window)) {
+      throw new Error('Time window must be day, week, month or all');
+    }
+
+    const pageSize = Math.min(Math.max(limit, 1), 100);
+
+    const { data: rows, error } = await supabase.rpc('get_feed_posts', {
+      p_feed: feed,
+      p_sort_by: sort_by,
+      p_top_window: time_window,
+      p_cursor: cursor ?? null,
+      p_limit: pageSize,
+    });
+
+    if (error) throw error;
+
+    const posts = rows || [];
+
+    // A short page means there is nothing left to fetch
+    const nextCursor = posts.length === pageSize ? posts[posts.length - 1].cursor : null;
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        posts: posts.map(({ cursor: _cursor, ...post }: any) => post),
+        next_cursor: nextCursor,
+      }),
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Feed API error:', error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,26 @@
+// Quotes a value when it contains a delimiter, quote or line break (RFC 4180). Text that a
+// spreadsheet would read as a formula gets a leading apostrophe; numbers are left as they are.
+function escapeCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialises rows to CSV with the given columns as the header. Rows are
+ * written in order and missing values become empty cells.
+ */
+export function toCsv(columns: string[], rows: Record<string, unknown>[]): string {
+  const lines = [columns.join(',')];
+
+  for (const row of rows) {
+    lines.push(columns.map(column => escapeCell(row[column])).join(','));
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
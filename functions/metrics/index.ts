@@ -0,0 +1,199 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { toCsv } from './csv.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+// Each report section is backed by an aggregate function in the database
+const SECTIONS = {
+  content_summary: {
+    rpc: 'moderation_content_summary',
+    columns: ['community_id', 'community_name', 'content_type', 'total_count', 'approved_count', 'flagged_count', 'rejected_count', 'pending_count'],
+  },
+  decision_counts: {
+    rpc: 'moderation_decision_counts',
+    columns: ['community_id', 'community_name', 'decision', 'rule', 'decision_count', 'share'],
+  },
+  review_times: {
+    rpc: 'moderation_review_times',
+    columns: ['community_id', 'community_name', 'flagged_count', 'reviewed_count', 'p50_minutes', 'p90_minutes', 'p99_minutes'],
+  },
+  overturn_rates: {
+    rpc: 'moderation_overturn_rates',
+    columns: ['community_id', 'community_name', 'automated_rejections', 'appealed_count', 'overturned_on_appeal', 'overturned_count', 'overturn_rate'],
+  },
+  moderator_activity: {
+    rpc: 'moderation_moderator_activity',
+    columns: ['moderator_id', 'moderator_name', 'total_actions', 'approvals', 'rejections', 'removals', 'bans', 'unbans', 'appeals_upheld', 'appeals_overturned'],
+  },
+};
+
+type MetricsSection = keyof typeof SECTIONS;
+
+type MetricsRow = Record<string, unknown>;
+
+interface MetricsRequest {
+  from?: string;
+  to?: string;
+  section?: MetricsSection;
+  format?: 'json' | 'csv';
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const { from, to, section, format = 'json' }: MetricsRequest = await req.json();
+
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('is_admin')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile?.is_admin) {
+      throw new Error('Only admins can view moderation metrics');
+    }
+
+    if (section !== undefined && !(section in SECTIONS)) {
+      throw new Error(`Unknown section. Expected one of: ${Object.keys(SECTIONS).join(', ')}`);
+    }
+
+    if (!['json', 'csv'].includes(format)) {
+      throw new Error('Format must be json or csv');
+    }
+
+    const range = parseRange(from, to);
+
+    // CSV exports a single section since each one has its own columns
+    if (format === 'csv') {
+      if (!section) {
+        throw new Error('A section is required for CSV export');
+      }
+
+      const rows = await loadSection(section, range);
+      const filename = `moderation-${section}-${range.from.slice(0, 10)}-${range.to.slice(0, 10)}.csv`;
+
+      return new Response(toCsv(SECTIONS[section].columns, rows), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Access-Control-Expose-Headers': 'Content-Disposition',
+          ...corsHeaders,
+        },
+      });
+    }
+
+    const report: Partial<Record<MetricsSection, MetricsRow[]>> = {};
+    for (const name of section ? [section] : Object.keys(SECTIONS) as MetricsSection[]) {
+      report[name] = await loadSection(name, range);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        from: range.from,
+        to: range.to,
+        ...report,
+      }),
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Metrics API error:', error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  }
+});
+
+interface DateRange {
+  from: string;
+  to: string;
+}
+
+// Defaults to the last 30 days; `to` is exclusive
+function parseRange(from?: string, to?: string): DateRange {
+  const end = to ? new Date(to) : new Date();
+  const start = from ? new Date(from) : new Date(end.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    throw new Error('Dates must be ISO 8601 timestamps');
+  }
+
+  if (start >= end) {
+    throw new Error('The start of the range must be before the end');
+  }
+
+  if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    throw new Error(`Date range too long (max ${MAX_RANGE_DAYS} days)`);
+  }
+
+  return { from: start.toISOString(), to: end.toISOString() };
+}
+
+async function loadSection(section: MetricsSection, range: DateRange): Promise<MetricsRow[]> {
+  const { data: rows, error } = await supabase.rpc(SECTIONS[section].rpc, {
+    p_from: range.from,
+    p_to: range.to,
+  });
+
+  if (error) throw error;
+
+  if (section === 'decision_counts') {
+    return withCommunityShares(rows || []);
+  }
+
+  return rows || [];
+}
+
+// Adds the share of its community's automated decisions that each decision/rule pair accounts for
+function withCommunityShares(rows: { community_id: string; decision_count: number }[]): MetricsRow[] {
+  const totals = new Map<string, number>();
+  for (const row of rows) {
+    totals.set(row.community_id, (totals.get(row.community_id) ?? 0) + row.decision_count);
+  }
+
+  return rows.map(row => ({
+    ...row,
+    share: Math.round((row.decision_count / totals.get(row.community_id)!) * 1000) / 1000,
+  }));
+}
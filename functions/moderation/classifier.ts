@@ -0,0 +1,133 @@
+export type ToxicityCategory = 'insult' | 'threat' | 'spam' | 'harassment';
+
+export type CategoryScores = Record<ToxicityCategory, number>;
+
+// One signal that raised a category score, with the span of content that triggered it
+export interface ToxicityContribution {
+  rule: string;
+  category: ToxicityCategory;
+  weight: number;
+  text: string | null;
+  start: number | null;
+  end: number | null;
+}
+
+export interface ToxicityResult {
+  score: number;
+  is_toxic: boolean;
+  categories: CategoryScores;
+  contributions: ToxicityContribution[];
+  model_version: string;
+}
+
+export interface ToxicityClassifier {
+  readonly version: string;
+  classify(content: string): ToxicityResult;
+}
+
+interface LexiconEntry {
+  pattern: RegExp;
+  category: ToxicityCategory;
+  weight: number;
+}
+
+const TOXICITY_THRESHOLD = 0.7;
+
+// Weighted lexicon tuned for campus discussions. Bump LEXICON_VERSION whenever
+// an entry or weight changes so logged decisions can be traced to the model.
+const LEXICON_VERSION = 'lexicon-1.0.0';
+
+const LEXICON: LexiconEntry[] = [
+  // Insults
+  { pattern: /\b(idiot|moron|imbecile)s?\b/i, category: 'insult', weight: 0.45 },
+  { pattern: /\b(stupid|dumb|brainless)\b/i, category: 'insult', weight: 0.3 },
+  { pattern: /\b(loser|clown|pathetic|useless)\b/i, category: 'insult', weight: 0.3 },
+
+  // Threats
+  { pattern: /\b(kill|murder|stab|shoot)\s+(you|him|her|them|u)\b/i, category: 'threat', weight: 0.7 },
+  { pattern: /\bwatch your back\b/i, category: 'threat', weight: 0.5 },
+  { pattern: /\b(attack|threat|violence|beat\s+(you|u)\s+up)\b/i, category: 'threat', weight: 0.25 },
+
+  // Harassment
+  { pattern: /\bhate\b/i, category: 'harassment', weight: 0.2 },
+  { pattern: /\b(go die|kys|nobody likes you)\b/i, category: 'harassment', weight: 0.6 },
+  { pattern: /\b(shut up|get lost|creep)\b/i, category: 'harassment', weight: 0.25 },
+  { pattern: /[A-Z]{10,}/, category: 'harassment', weight: 0.2 }, // All caps (shouting)
+
+  // Spam
+  { pattern: /\b(buy now|click here|limited offer|free money|dm for price)\b/i, category: 'spam', weight: 0.4 },
+  { pattern: /\b(referral|promo)\s+(code|link)\b/i, category: 'spam', weight: 0.35 },
+  { pattern: /(.)\1{4,}/, category: 'spam', weight: 0.2 }, // Repeated characters
+  { pattern: /\b\d{10,}\b/, category: 'spam', weight: 0.2 }, // Phone numbers
+  { pattern: /https?:\/\/[^\s]+/, category: 'spam', weight: 0.2 }, // URLs
+];
+
+const emptyScores = (): CategoryScores => ({
+  insult: 0,
+  threat: 0,
+  spam: 0,
+  harassment: 0,
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Combines independent signals so that repeated hits raise a score without exceeding 1
+const combine = (current: number, weight: number) => 1 - (1 - current) * (1 - weight);
+
+export class LexiconClassifier implements ToxicityClassifier {
+  readonly version = LEXICON_VERSION;
+
+  classify(content: string): ToxicityResult {
+    const categories = emptyScores();
+    const contributions: ToxicityContribution[] = [];
+
+    for (const entry of LEXICON) {
+      const match = entry.pattern.exec(content);
+      if (match) {
+        categories[entry.category] = combine(categories[entry.category], entry.weight);
+        contributions.push({
+          rule: entry.pattern.source,
+          category: entry.category,
+          weight: entry.weight,
+          text: match[0],
+          start: match.index,
+          end: match.index + match[0].length,
+        });
+      }
+    }
+
+    // Very short or very long submissions are more likely to be low-effort spam
+    if (content.length < 10 || content.length > 2000) {
+      categories.spam = combine(categories.spam, 0.1);
+      contributions.push({ rule: 'length', category: 'spam', weight: 0.1, text: null, start: null, end: null });
+    }
+
+    let score = 0;
+    for (const category of Object.keys(categories) as ToxicityCategory[]) {
+      categories[category] = round(categories[category]);
+      score = combine(score, categories[category]);
+    }
+
+    score = round(score);
+
+    return {
+      score,
+      is_toxic: score > TOXICITY_THRESHOLD,
+      categories,
+      contributions,
+      model_version: this.version,
+    };
+  }
+}
+
+const classifiers: Record<string, () => ToxicityClassifier> = {
+  lexicon: () => new LexiconClassifier(),
+};
+
+export function getToxicityClassifier(name = Deno.env.get('TOXICITY_CLASSIFIER') || 'lexicon'): ToxicityClassifier {
+  const factory = classifiers[name];
+  if (!factory) {
+    throw new Error(`Unknown toxicity classifier: ${name}`);
+  }
+  return factory();
+}
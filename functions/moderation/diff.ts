@@ -0,0 +1,70 @@
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Beyond this many words per side, fall back to a whole-text replacement
+const MAX_DIFF_WORDS = 3000;
+
+/**
+ * Word-level diff between two versions of a text, based on the longest common
+ * subsequence. Whitespace is kept attached to the word before it so joining
+ * the segments reproduces each version exactly.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.match(/\S+\s*|\s+/g) ?? [];
+  const b = after.match(/\S+\s*|\s+/g) ?? [];
+
+  if (a.length > MAX_DIFF_WORDS || b.length > MAX_DIFF_WORDS) {
+    return compact([
+      { type: 'removed', text: before },
+      { type: 'added', text: after },
+    ]);
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: Uint16Array[] = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      segments.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] > lcs[i + 1][j])) {
+      segments.push({ type: 'added', text: b[j] });
+      j++;
+    } else {
+      segments.push({ type: 'removed', text: a[i] });
+      i++;
+    }
+  }
+
+  return compact(segments);
+}
+
+// Merges neighbouring segments of the same type and drops empty ones
+function compact(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+
+  for (const segment of segments) {
+    if (!segment.text) continue;
+
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged;
+}
@@ -1,23 +1,119 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
 import { corsHeaders } from '../_shared/cors.ts';
+import { renderMarkdown } from '../_shared/markdown.ts';
+import { DEFAULT_MODERATION_POLICY, loadModerationPolicy, ModerationPolicy } from '../_shared/moderation-policy.ts';
+import { assertCanModerate, getModeratedCommunityIds } from '../_shared/permissions.ts';
+import { getToxicityClassifier, ToxicityContribution, ToxicityResult } from './classifier.ts';
+import { diffWords } from './diff.ts';
+import {
+  DEFAULT_EXCEPTIONS,
+  MANGLISH_TERMS,
+  PROFANITY_TERMS,
+  TermMatch,
+  TermMatcher,
+} from './matcher.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-interface ModerationRequest {
+const toxicityClassifier = getToxicityClassifier();
+
+// Profile of the system account that automated decisions are attributed to
+const SYSTEM_ACTOR_ID = '00000000-0000-0000-0000-000000000001';
+
+interface AutomatedCheckRequest {
+  action?: 'check';
+  content_type: 'post' | 'comment';
+  content_id: string;
+}
+
+interface ProcessQueueRequest {
+  action: 'process_queue';
+  job_id?: string;
+  limit?: number;
+}
+
+interface SweepPendingRequest {
+  action: 'sweep';
+  older_than_minutes?: number;
+}
+
+interface ExplainRequest {
+  action: 'explain';
   content: string;
+  content_type?: 'post' | 'comment';
+  community_id?: string;
+}
+
+interface GetQueueRequest {
+  action: 'get_queue';
+  community_id?: string;
+  limit?: number;
+}
+
+interface ReviewContentRequest {
+  action: 'review';
   content_type: 'post' | 'comment';
   content_id: string;
-  author_id: string;
+  decision: 'approve' | 'reject' | 'remove';
+  reason: string;
 }
 
-interface ToxicityResult {
-  score: number;
-  is_toxic: boolean;
+interface BanUserRequest {
+  action: 'ban';
+  user_id: string;
+  community_id?: string;
+  reason: string;
+  duration_hours?: number;
 }
 
+interface UnbanUserRequest {
+  action: 'unban';
+  ban_id: string;
+  reason: string;
+}
+
+interface GetRevisionsRequest {
+  action: 'get_revisions';
+  content_type: 'post' | 'comment';
+  content_id: string;
+}
+
+interface GetVoteFlagsRequest {
+  action: 'get_vote_flags';
+  community_id?: string;
+  status?: 'open' | 'confirmed' | 'dismissed';
+  limit?: number;
+}
+
+interface ReviewVoteFlagRequest {
+  action: 'review_vote_flag';
+  flag_id: string;
+  decision: 'confirm' | 'dismiss';
+  reason: string;
+}
+
+type ModerationRequest =
+  | AutomatedCheckRequest
+  | ProcessQueueRequest
+  | SweepPendingRequest
+  | ExplainRequest
+  | GetQueueRequest
+  | ReviewContentRequest
+  | GetRevisionsRequest
+  | BanUserRequest
+  | UnbanUserRequest
+  | GetVoteFlagsRequest
+  | ReviewVoteFlagRequest;
+
+const REVIEW_OUTCOMES = {
+  approve: 'approved',
+  reject: 'rejected',
+  remove: 'removed',
+};
+
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, {
@@ -27,41 +123,62 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { content, content_type, content_id, author_id }: ModerationRequest = await req.json();
+    const requestData: ModerationRequest = await req.json();
 
-    // Step 1: Basic profanity filter (regex-based)
-    const profanityResult = await checkProfanity(content);
-    
-    // Step 2: Toxicity scoring using mock AI model
-    const toxicityResult = await checkToxicity(content);
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
 
-    // Step 3: Determine moderation action
-    const moderationDecision = decideModerationAction(profanityResult, toxicityResult);
+    // The automated pipeline is driven by other functions and the scheduler using the service role key
+    const isServiceRole = authHeader === `Bearer ${supabaseServiceKey}`;
 
-    // Step 4: Update content status
-    await updateContentStatus(content_type, content_id, moderationDecision, toxicityResult.score);
+    if (requestData.action === undefined || requestData.action === 'check') {
+      if (!isServiceRole) throw new Error('Automated checks can only be run internally');
+      return await handleAutomatedCheck(requestData);
+    } else if (requestData.action === 'process_queue') {
+      if (!isServiceRole) throw new Error('The moderation queue can only be processed internally');
+      return await handleProcessQueue(requestData);
+    } else if (requestData.action === 'sweep') {
+      if (!isServiceRole) throw new Error('The moderation sweep can only be run internally');
+      return await handleSweepPending(requestData);
+    }
 
-    // Step 5: Log moderation action
-    await logModerationAction(content_type, content_id, moderationDecision, author_id);
+    // Human moderator actions require an authenticated user
 
-    return new Response(
-      JSON.stringify({
-        decision: moderationDecision.action,
-        toxicity_score: toxicityResult.score,
-        auto_approved: moderationDecision.action === 'approve',
-      }),
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          ...corsHeaders,
-        },
-      }
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
     );
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    switch (requestData.action) {
+      case 'explain':
+        return await handleExplain(requestData, user.id);
+      case 'get_queue':
+        return await handleGetQueue(requestData, user.id);
+      case 'review':
+        return await handleReviewContent(requestData, user.id);
+      case 'get_revisions':
+        return await handleGetRevisions(requestData, user.id);
+      case 'ban':
+        return await handleBanUser(requestData, user.id);
+      case 'unban':
+        return await handleUnbanUser(requestData, user.id);
+      case 'get_vote_flags':
+        return await handleGetVoteFlags(requestData, user.id);
+      case 'review_vote_flag':
+        return await handleReviewVoteFlag(requestData, user.id);
+      default:
+        throw new Error('Invalid action');
+    }
   } catch (error) {
     console.error('Moderation error:', error);
     return new Response(
       JSON.stringify({
-        error: 'Moderation check failed',
+        error: error.message || 'Moderation check failed',
       }),
       {
         status: 500,
@@ -74,85 +191,992 @@ Deno.serve(async (req: Request) => {
   }
 });
 
-async function checkProfanity(content: string): Promise<{ hasProfanity: boolean; words: string[] }> {
-  // Basic profanity word list (expand as needed)
-  const profanityWords = [
-    'spam', 'scam', 'fake', 'fraud', 'cheat', 'hack', 'illegal'
-  ];
-  
-  const contentLower = content.toLowerCase();
-  const foundWords = profanityWords.filter(word => contentLower.includes(word));
-  
+async function handleAutomatedCheck(data: AutomatedCheckRequest) {
+  const { content_type, content_id } = data;
+
+  const result = await runAutomatedCheck(content_type, content_id);
+
+  return new Response(
+    JSON.stringify(result),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleProcessQueue(data: ProcessQueueRequest) {
+  const { job_id, limit = 10 } = data;
+
+  const results = await processModerationJobs(Math.min(limit, 50), job_id ?? null);
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      ...results,
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleSweepPending(data: SweepPendingRequest) {
+  const { older_than_minutes = 10 } = data;
+
+  // Queue checks for content stuck in 'pending' without an active job, then work through the queue
+  const { data: enqueued, error } = await supabase.rpc('enqueue_stale_pending_content', {
+    p_older_than_minutes: older_than_minutes,
+  });
+
+  if (error) throw error;
+
+  const results = await processModerationJobs(50, null);
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      enqueued,
+      ...results,
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function processModerationJobs(limit: number, jobId: string | null) {
+  const { data: jobs, error } = await supabase.rpc('claim_moderation_jobs', {
+    p_limit: limit,
+    p_job_id: jobId,
+  });
+
+  if (error) throw error;
+
+  const results = { processed: 0, completed: 0, retrying: 0, dead: 0 };
+
+  for (const job of jobs || []) {
+    results.processed++;
+
+    try {
+      await runAutomatedCheck(job.content_type, job.content_id);
+
+      const { error: completeError } = await supabase.rpc('complete_moderation_job', { p_job_id: job.id });
+      if (completeError) throw completeError;
+
+      results.completed++;
+    } catch (error) {
+      console.error(`Moderation job ${job.id} failed:`, error);
+
+      const { data: status, error: failError } = await supabase.rpc('fail_moderation_job', {
+        p_job_id: job.id,
+        p_error: error.message || String(error),
+      });
+
+      if (failError) throw failError;
+
+      if (status === 'dead') {
+        results.dead++;
+      } else {
+        results.retrying++;
+      }
+    }
+  }
+
+  return results;
+}
+
+async function runAutomatedCheck(content_type: 'post' | 'comment', content_id: string) {
+  const context = await getContentContext(content_type, content_id);
+  if (!context) {
+    throw new Error('Content not found');
+  }
+
+  // Checks run on the text without Markdown; poll options are moderated along with the body
+  const body = renderMarkdown(context.content).text;
+  const content = content_type === 'post' ? await withPollOptions(content_id, body) : body;
+
+  // Step 1: Load the moderation policy for the content's community
+  const policy = await loadModerationPolicy(supabase, context.community_id);
+
+  // Step 2: Word and phrase filter (obfuscation-aware)
+  const profanityResult = await checkProfanity(content, policy);
+
+  // Step 3: Toxicity scoring using the configured classifier
+  const toxicityResult = await checkToxicity(content);
+
+  // Step 4: Determine moderation action
+  const policyChecks = {
+    hasLinks: /https?:\/\/[^\s]+/i.test(content),
+    requiresNewMemberReview: content_type === 'post'
+      && await isWithinNewMemberReview(context, content_id, policy.new_member_review_posts),
+    duplicateMatches: content_type === 'post' ? await getDuplicateMatches(content_id) : [],
+    heldForReview: context.moderation_status === 'flagged',
+  };
+  const moderationDecision = decideModerationAction(profanityResult, toxicityResult, policy, policyChecks);
+  const explanation = buildExplanation(moderationDecision, profanityResult, toxicityResult, policy, policyChecks);
+
+  // Step 5: Update content status
+  await updateContentStatus(content_type, content_id, moderationDecision, toxicityResult.score);
+
+  // Step 6: Log moderation action
+  await logModerationAction(content_type, content_id, moderationDecision, toxicityResult, profanityResult, explanation);
+
   return {
-    hasProfanity: foundWords.length > 0,
-    words: foundWords,
+    decision: moderationDecision.action,
+    toxicity_score: toxicityResult.score,
+    category_scores: toxicityResult.categories,
+    model_version: toxicityResult.model_version,
+    matched_terms: profanityResult.matches,
+    auto_approved: moderationDecision.action === 'approve',
+    explanation,
   };
 }
 
-async function checkToxicity(content: string): Promise<ToxicityResult> {
-  // Mock toxicity detection (replace with actual open-source model)
-  // In production, use Hugging Face Transformers.js or similar
-  
-  const suspiciousPatterns = [
-    /\b(hate|attack|threat|violence)\b/i,
-    /[A-Z]{10,}/, // All caps (shouting)
-    /(.)\1{4,}/, // Repeated characters
-    /\b\d{10,}\b/, // Phone numbers
-    /https?:\/\/[^\s]+/g, // URLs (potential spam)
-  ];
+// Runs the automated checks on arbitrary text without touching any content or logs
+async function handleExplain(data: ExplainRequest, userId: string) {
+  const { content, content_type = 'post', community_id } = data;
 
-  let toxicityScore = 0;
-  
-  suspiciousPatterns.forEach(pattern => {
-    if (pattern.test(content)) {
-      toxicityScore += 0.2;
+  // A community's policy (blocked terms, thresholds) is only shown to its moderators
+  if (community_id) {
+    await assertCanModerate(supabase, userId, community_id);
+  } else {
+    await getModeratedCommunityIds(supabase, userId);
+  }
+
+  if (!content?.trim()) {
+    throw new Error('Content is required');
+  }
+
+  if (content.length > 10000) {
+    throw new Error('Content too long (max 10000 characters)');
+  }
+
+  if (!['post', 'comment'].includes(content_type)) {
+    throw new Error('Content type must be post or comment');
+  }
+
+  const policy = community_id ? await loadModerationPolicy(supabase, community_id) : DEFAULT_MODERATION_POLICY;
+  const text = renderMarkdown(content).text;
+  const profanityResult = await checkProfanity(text, policy);
+  const toxicityResult = await checkToxicity(text);
+
+  // Duplicate and new-member checks depend on stored posts, so they are not evaluated here
+  const policyChecks = {
+    hasLinks: /https?:\/\/[^\s]+/i.test(text),
+    requiresNewMemberReview: false,
+    duplicateMatches: [],
+    heldForReview: false,
+  };
+  const moderationDecision = decideModerationAction(profanityResult, toxicityResult, policy, policyChecks);
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      dry_run: true,
+      content_type,
+      not_evaluated: ['duplicates', 'new_member_review'],
+      explanation: buildExplanation(moderationDecision, profanityResult, toxicityResult, policy, policyChecks),
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
     }
+  );
+}
+
+async function handleGetQueue(data: GetQueueRequest, userId: string) {
+  const { community_id, limit = 50 } = data;
+
+  const moderatedCommunities = await getModeratedCommunityIds(supabase, userId);
+
+  if (community_id && moderatedCommunities && !moderatedCommunities.includes(community_id)) {
+    throw new Error('You do not have permission to moderate this community');
+  }
+
+  let query = supabase
+    .from('moderation_queue')
+    .select('*')
+    .order('created_at', { ascending: true })
+    .limit(Math.min(limit, 100));
+
+  if (community_id) {
+    query = query.eq('community_id', community_id);
+  } else if (moderatedCommunities) {
+    // Community moderators only see items from communities they moderate
+    query = query.in('community_id', moderatedCommunities);
+  }
+
+  const { data: queue, error } = await query;
+
+  if (error) throw error;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      queue: queue || [],
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleReviewContent(data: ReviewContentRequest, userId: string) {
+  const { content_type, content_id, decision, reason } = data;
+
+  if (!['post', 'comment'].includes(content_type) || !content_id) {
+    throw new Error('Content type and content ID are required');
+  }
+
+  if (!['approve', 'reject', 'remove'].includes(decision)) {
+    throw new Error('Invalid moderation decision');
+  }
+
+  if (!reason?.trim()) {
+    throw new Error('A reason is required for moderation decisions');
+  }
+
+  const context = await getContentContext(content_type, content_id);
+  if (!context) {
+    throw new Error('Content not found');
+  }
+
+  await assertCanModerate(supabase, userId, context.community_id);
+
+  const table = content_type === 'post' ? 'posts' : 'comments';
+  const now = new Date().toISOString();
+
+  const updateData: any = {
+    approved_by: userId,
+    approved_at: now,
+    updated_at: now,
+  };
+
+  switch (decision) {
+    case 'approve':
+      updateData.is_approved = true;
+      updateData.is_removed = false;
+      updateData.moderation_status = 'approved';
+      break;
+    case 'reject':
+      updateData.is_approved = false;
+      updateData.is_removed = true;
+      updateData.moderation_status = 'rejected';
+      break;
+    case 'remove':
+      updateData.is_removed = true;
+      updateData.moderation_status = 'rejected';
+      break;
+  }
+
+  const { error: updateError } = await supabase
+    .from(table)
+    .update(updateData)
+    .eq('id', content_id);
+
+  if (updateError) throw updateError;
+
+  const { error: logError } = await supabase
+    .from('moderation_logs')
+    .insert({
+      moderator_id: userId,
+      target_type: content_type,
+      target_id: content_id,
+      action: decision,
+      reason: reason.trim(),
+      automated: false,
+    });
+
+  if (logError) throw logError;
+
+  // Any open member reports are settled by this review
+  const { error: reportsError } = await supabase
+    .from('content_reports')
+    .update({
+      status: 'resolved',
+      resolved_at: now,
+      resolved_by: userId,
+    })
+    .eq('target_type', content_type)
+    .eq('target_id', content_id)
+    .eq('status', 'open');
+
+  if (reportsError) throw reportsError;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      decision,
+      message: `Content ${REVIEW_OUTCOMES[decision]} successfully`,
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleGetRevisions(data: GetRevisionsRequest, userId: string) {
+  const { content_type, content_id } = data;
+
+  const context = await getContentContext(content_type, content_id);
+  if (!context) {
+    throw new Error('Content not found');
+  }
+
+  await assertCanModerate(supabase, userId, context.community_id);
+
+  const { data: current } = await supabase
+    .from(content_type === 'post' ? 'posts' : 'comments')
+    .select(content_type === 'post' ? 'title, content, edited_at' : 'content, edited_at')
+    .eq('id', content_id)
+    .single();
+
+  const { data: revisions, error } = await supabase
+    .from('content_revisions')
+    .select('id, title, content, edited_by, created_at')
+    .eq('target_type', content_type)
+    .eq('target_id', content_id)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  // Each version is diffed against the one before it; the last entry is the live text
+  const versions = [
+    ...(revisions || []).map(revision => ({ ...revision, is_current: false })),
+    { ...(current as any), is_current: true },
+  ];
+
+  const history = versions.map((version, index) => {
+    const previous = versions[index - 1];
+    return {
+      ...version,
+      title_diff: previous && content_type === 'post' ? diffWords(previous.title ?? '', version.title ?? '') : null,
+      content_diff: previous ? diffWords(previous.content, version.content) : null,
+    };
   });
 
-  // Add length-based scoring
-  if (content.length < 10) toxicityScore += 0.1;
-  if (content.length > 2000) toxicityScore += 0.1;
+  return new Response(
+    JSON.stringify({
+      success: true,
+      revisions: history,
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleBanUser(data: BanUserRequest, userId: string) {
+  const { user_id, community_id, reason, duration_hours } = data;
+
+  if (!user_id) {
+    throw new Error('User ID is required');
+  }
+
+  if (user_id === userId) {
+    throw new Error('You cannot ban yourself');
+  }
+
+  if (!reason?.trim()) {
+    throw new Error('A reason is required for bans');
+  }
+
+  if (duration_hours !== undefined && (!Number.isFinite(duration_hours) || duration_hours <= 0)) {
+    throw new Error('Suspension duration must be a positive number of hours');
+  }
+
+  await assertCanModerate(supabase, userId, community_id ?? null);
+
+  const expiresAt = duration_hours !== undefined
+    ? new Date(Date.now() + duration_hours * 60 * 60 * 1000).toISOString()
+    : null;
+
+  const { data: ban, error: banError } = await supabase
+    .from('user_bans')
+    .insert({
+      user_id,
+      community_id: community_id ?? null,
+      reason: reason.trim(),
+      expires_at: expiresAt,
+      issued_by: userId,
+    })
+    .select()
+    .single();
+
+  if (banError) throw banError;
+
+  // Cancel membership requests the user can no longer act on
+  let pendingMemberships = supabase
+    .from('memberships')
+    .update({ status: 'rejected' })
+    .eq('user_id', user_id)
+    .eq('status', 'pending');
+
+  if (community_id) {
+    pendingMemberships = pendingMemberships.eq('community_id', community_id);
+  }
+
+  const { error: membershipError } = await pendingMemberships;
+
+  if (membershipError) throw membershipError;
+
+  const { error: logError } = await supabase
+    .from('moderation_logs')
+    .insert({
+      moderator_id: userId,
+      target_type: 'user',
+      target_id: user_id,
+      action: 'ban',
+      reason: expiresAt ? `${reason.trim()} (suspended until ${expiresAt})` : reason.trim(),
+      automated: false,
+    });
+
+  if (logError) throw logError;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      ban_id: ban.id,
+      expires_at: expiresAt,
+      message: expiresAt ? `User suspended until ${expiresAt}` : 'User banned successfully',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleUnbanUser(data: UnbanUserRequest, userId: string) {
+  const { ban_id, reason } = data;
+
+  if (!reason?.trim()) {
+    throw new Error('A reason is required to lift a ban');
+  }
+
+  const { data: ban } = await supabase
+    .from('user_bans')
+    .select('user_id, community_id, revoked_at')
+    .eq('id', ban_id)
+    .single();
+
+  if (!ban || ban.revoked_at) {
+    throw new Error('Active ban not found');
+  }
+
+  await assertCanModerate(supabase, userId, ban.community_id);
+
+  const { error: updateError } = await supabase
+    .from('user_bans')
+    .update({
+      revoked_at: new Date().toISOString(),
+      revoked_by: userId,
+    })
+    .eq('id', ban_id);
+
+  if (updateError) throw updateError;
+
+  const { error: logError } = await supabase
+    .from('moderation_logs')
+    .insert({
+      moderator_id: userId,
+      target_type: 'user',
+      target_id: ban.user_id,
+      action: 'unban',
+      reason: reason.trim(),
+      automated: false,
+    });
+
+  if (logError) throw logError;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message: 'Ban lifted successfully',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+// Flags come with a summary per voted item so coordinated votes show up as one pattern
+async function handleGetVoteFlags(data: GetVoteFlagsRequest, userId: string) {
+  const { community_id, status = 'open', limit = 100 } = data;
+
+  if (!['open', 'confirmed', 'dismissed'].includes(status)) {
+    throw new Error('Invalid flag status');
+  }
+
+  const moderatedCommunities = await getModeratedCommunityIds(supabase, userId);
+
+  if (community_id && moderatedCommunities && !moderatedCommunities.includes(community_id)) {
+    throw new Error('You do not have permission to moderate this community');
+  }
+
+  let query = supabase
+    .from('vote_flags')
+    .select('id, vote_id, voter_id, community_id, target_type, target_id, target_author_id, vote_type, suspicion_score, reasons, discounted, status, reviewed_by, reviewed_at, created_at')
+    .eq('status', status)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(limit, 500));
+
+  if (community_id) {
+    query = query.eq('community_id', community_id);
+  } else if (moderatedCommunities) {
+    query = query.in('community_id', moderatedCommunities);
+  }
+
+  const { data: flags, error } = await query;
+
+  if (error) throw error;
 
-  // Simulate AI model scoring
-  toxicityScore = Math.min(toxicityScore + Math.random() * 0.1, 1.0);
+  const patterns = new Map<string, VoteFlagPattern>();
+  for (const flag of flags || []) {
+    const key = `${flag.target_type}:${flag.target_id}`;
+    const pattern: VoteFlagPattern = patterns.get(key) ?? {
+      target_type: flag.target_type,
+      target_id: flag.target_id,
+      target_author_id: flag.target_author_id,
+      community_id: flag.community_id,
+      flagged_votes: 0,
+      discounted_votes: 0,
+      up_votes: 0,
+      down_votes: 0,
+      reasons: {},
+      voter_ids: [],
+    };
+
+    pattern.flagged_votes++;
+    if (flag.discounted) pattern.discounted_votes++;
+    if (flag.vote_type === 'up') pattern.up_votes++;
+    else pattern.down_votes++;
+    for (const reason of flag.reasons) {
+      pattern.reasons[reason] = (pattern.reasons[reason] ?? 0) + 1;
+    }
+    if (!pattern.voter_ids.includes(flag.voter_id)) pattern.voter_ids.push(flag.voter_id);
+
+    patterns.set(key, pattern);
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      flags: flags || [],
+      patterns: [...patterns.values()].sort((a, b) => b.flagged_votes - a.flagged_votes),
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+// Confirming keeps the vote out of scores and karma; dismissing counts it again
+async function handleReviewVoteFlag(data: ReviewVoteFlagRequest, userId: string) {
+  const { flag_id, decision, reason } = data;
+
+  if (!['confirm', 'dismiss'].includes(decision)) {
+    throw new Error('Invalid review decision');
+  }
+
+  if (!reason?.trim()) {
+    throw new Error('A reason is required for moderation decisions');
+  }
+
+  const { data: flag } = await supabase
+    .from('vote_flags')
+    .select('id, vote_id, community_id, status')
+    .eq('id', flag_id)
+    .single();
+
+  if (!flag) {
+    throw new Error('Vote flag not found');
+  }
+
+  await assertCanModerate(supabase, userId, flag.community_id);
+
+  if (flag.status !== 'open') {
+    throw new Error('This vote flag has already been reviewed');
+  }
+
+  const discounted = decision === 'confirm';
+
+  // The vote may have been withdrawn since it was flagged
+  if (flag.vote_id) {
+    const { error: voteError } = await supabase
+      .from('votes')
+      .update({ is_discounted: discounted })
+      .eq('id', flag.vote_id);
+
+    if (voteError) throw voteError;
+  }
+
+  const now = new Date().toISOString();
+  let flagsQuery = supabase
+    .from('vote_flags')
+    .update({
+      status: discounted ? 'confirmed' : 'dismissed',
+      discounted,
+      reviewed_by: userId,
+      reviewed_at: now,
+    })
+    .eq('status', 'open');
+
+  // Every open flag on the same vote is settled by this review
+  flagsQuery = flag.vote_id ? flagsQuery.eq('vote_id', flag.vote_id) : flagsQuery.eq('id', flag.id);
+
+  const { error: flagError } = await flagsQuery;
+
+  if (flagError) throw flagError;
+
+  const { error: logError } = await supabase
+    .from('moderation_logs')
+    .insert({
+      moderator_id: userId,
+      target_type: 'vote',
+      target_id: flag.vote_id ?? flag.id,
+      action: discounted ? 'discount' : 'restore',
+      reason: reason.trim(),
+      automated: false,
+    });
+
+  if (logError) throw logError;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      decision,
+      message: discounted ? 'Vote discounted' : 'Vote restored',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+interface VoteFlagPattern {
+  target_type: 'post' | 'comment';
+  target_id: string;
+  target_author_id: string | null;
+  community_id: string;
+  flagged_votes: number;
+  discounted_votes: number;
+  up_votes: number;
+  down_votes: number;
+  reasons: Record<string, number>;
+  voter_ids: string[];
+}
+
+interface ContentContext {
+  community_id: string;
+  author_id: string;
+  content: string;
+  created_at: string;
+  moderation_status: string;
+}
+
+async function getContentContext(contentType: string, contentId: string): Promise<ContentContext | null> {
+  if (contentType === 'post') {
+    const { data: post } = await supabase
+      .from('posts')
+      .select('community_id, author_id, content, created_at, moderation_status')
+      .eq('id', contentId)
+      .single();
+
+    return post ?? null;
+  }
+
+  const { data: comment } = await supabase
+    .from('comments')
+    .select('author_id, content, created_at, moderation_status, posts!inner(community_id)')
+    .eq('id', contentId)
+    .single();
+
+  if (!comment) return null;
 
   return {
-    score: Math.round(toxicityScore * 100) / 100,
-    is_toxic: toxicityScore > 0.7,
+    community_id: (comment.posts as any).community_id,
+    author_id: comment.author_id,
+    content: comment.content,
+    created_at: comment.created_at,
+    moderation_status: comment.moderation_status,
   };
 }
 
+async function withPollOptions(postId: string, content: string): Promise<string> {
+  const { data: options, error } = await supabase
+    .from('poll_options')
+    .select('label')
+    .eq('post_id', postId)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+
+  if (!options || options.length === 0) return content;
+
+  return [content, ...options.map(option => option.label)].join('\n');
+}
+
+// Same-link matches are only shown alongside the post; resharing a link is not held as a duplicate
+async function getDuplicateMatches(postId: string): Promise<DuplicateMatch[]> {
+  const { data: matches, error } = await supabase
+    .from('post_duplicate_matches')
+    .select('matched_post_id, similarity')
+    .eq('post_id', postId)
+    .neq('scope', 'link');
+
+  if (error) throw error;
+
+  return matches || [];
+}
+
+// True while the author has fewer than `reviewCount` earlier posts in the community
+async function isWithinNewMemberReview(context: ContentContext, postId: string, reviewCount: number) {
+  if (reviewCount <= 0) return false;
+
+  const { count, error } = await supabase
+    .from('posts')
+    .select('id', { count: 'exact', head: true })
+    .eq('author_id', context.author_id)
+    .eq('community_id', context.community_id)
+    .neq('id', postId)
+    .lte('created_at', context.created_at);
+
+  if (error) throw error;
+
+  return (count ?? 0) < reviewCount;
+}
+
+interface ProfanityResult {
+  hasProfanity: boolean;
+  words: string[];
+  matches: TermMatch[];
+}
+
+async function checkProfanity(content: string, policy: ModerationPolicy): Promise<ProfanityResult> {
+  const matcher = new TermMatcher(
+    {
+      default: PROFANITY_TERMS,
+      manglish: MANGLISH_TERMS,
+      community: policy.blocked_terms,
+    },
+    [...DEFAULT_EXCEPTIONS, ...policy.allowed_terms]
+  );
+
+  const matches = matcher.match(content);
+
+  return {
+    hasProfanity: matches.length > 0,
+    words: [...new Set(matches.map(match => match.term))],
+    matches,
+  };
+}
+
+async function checkToxicity(content: string): Promise<ToxicityResult> {
+  return toxicityClassifier.classify(content);
+}
+
+type ModerationAction = 'approve' | 'flag' | 'reject';
+
+interface FiredRule {
+  rule: string;
+  action: ModerationAction;
+  reason: string;
+}
+
 interface ModerationDecision {
-  action: 'approve' | 'flag' | 'reject';
+  action: ModerationAction;
   reason: string;
+  // Every rule that fired, in precedence order; the first one decides the action
+  rules: FiredRule[];
+}
+
+interface ModerationExplanation {
+  decision: ModerationAction;
+  reason: string;
+  rules_fired: FiredRule[];
+  thresholds: {
+    reject_threshold: number;
+    flag_threshold: number;
+    duplicate_threshold: number;
+    duplicate_action: ModerationPolicy['duplicate_action'];
+    allow_links: boolean;
+    new_member_review_posts: number;
+  };
+  toxicity: {
+    score: number;
+    model_version: string;
+    categories: ToxicityResult['categories'];
+    contributions: ToxicityContribution[];
+  };
+  matched_terms: TermMatch[];
+  checks: {
+    has_links: boolean;
+    requires_new_member_review: boolean;
+    duplicate_matches: DuplicateMatch[];
+    held_for_review: boolean;
+  };
+}
+
+interface DuplicateMatch {
+  matched_post_id: string;
+  similarity: number;
+}
+
+interface PolicyChecks {
+  hasLinks: boolean;
+  requiresNewMemberReview: boolean;
+  duplicateMatches: DuplicateMatch[];
+  // Flagged content stays with the moderators, even after an edit that would pass the checks
+  heldForReview: boolean;
 }
 
 function decideModerationAction(
-  profanityResult: { hasProfanity: boolean; words: string[] },
-  toxicityResult: ToxicityResult
+  profanityResult: ProfanityResult,
+  toxicityResult: ToxicityResult,
+  policy: ModerationPolicy,
+  checks: PolicyChecks
 ): ModerationDecision {
-  // Auto-reject if high toxicity or profanity
-  if (toxicityResult.score > 0.8 || profanityResult.hasProfanity) {
-    return {
+  const rules: FiredRule[] = [];
+
+  // Auto-reject links where the community does not allow them
+  if (checks.hasLinks && !policy.allow_links) {
+    rules.push({
+      rule: 'links_not_allowed',
       action: 'reject',
-      reason: profanityResult.hasProfanity 
-        ? `Contains prohibited words: ${profanityResult.words.join(', ')}`
-        : 'High toxicity score detected',
-    };
+      reason: 'Links are not allowed in this community',
+    });
+  }
+
+  // Auto-reject profanity and high toxicity
+  if (profanityResult.hasProfanity) {
+    rules.push({
+      rule: 'prohibited_terms',
+      action: 'reject',
+      reason: `Contains prohibited words: ${profanityResult.words.join(', ')}`,
+    });
+  }
+
+  if (toxicityResult.score > policy.reject_threshold) {
+    rules.push({
+      rule: 'toxicity_reject',
+      action: 'reject',
+      reason: 'High toxicity score detected',
+    });
+  }
+
+  // Reject or flag near duplicates of recent posts, depending on the community policy
+  if (checks.duplicateMatches.length > 0 && policy.duplicate_action !== 'off') {
+    const closest = checks.duplicateMatches.reduce((best, match) => match.similarity > best.similarity ? match : best);
+    const matchedIds = checks.duplicateMatches.map(match => match.matched_post_id).join(', ');
+    rules.push({
+      rule: 'duplicate',
+      action: policy.duplicate_action,
+      reason: `Duplicate of recent post(s) ${matchedIds} (similarity ${closest.similarity})`,
+    });
   }
 
   // Flag for manual review if moderate toxicity
-  if (toxicityResult.score > 0.5) {
-    return {
+  if (toxicityResult.score > policy.flag_threshold) {
+    rules.push({
+      rule: 'toxicity_flag',
       action: 'flag',
       reason: 'Moderate toxicity score - requires manual review',
+    });
+  }
+
+  // New members' first posts always go to manual review when the policy asks for it
+  if (checks.requiresNewMemberReview) {
+    rules.push({
+      rule: 'new_member_review',
+      action: 'flag',
+      reason: 'New member post - requires manual review',
+    });
+  }
+
+  if (checks.heldForReview) {
+    rules.push({
+      rule: 'held_for_review',
+      action: 'flag',
+      reason: 'Flagged or reported before this check - requires manual review',
+    });
+  }
+
+  // Auto-approve if nothing fired
+  if (rules.length === 0) {
+    return {
+      action: 'approve',
+      reason: 'Content passed automated moderation checks',
+      rules,
     };
   }
 
-  // Auto-approve if low toxicity
+  return { action: rules[0].action, reason: rules[0].reason, rules };
+}
+
+function buildExplanation(
+  decision: ModerationDecision,
+  profanityResult: ProfanityResult,
+  toxicityResult: ToxicityResult,
+  policy: ModerationPolicy,
+  checks: PolicyChecks
+): ModerationExplanation {
   return {
-    action: 'approve',
-    reason: 'Content passed automated moderation checks',
+    decision: decision.action,
+    reason: decision.reason,
+    rules_fired: decision.rules,
+    thresholds: {
+      reject_threshold: policy.reject_threshold,
+      flag_threshold: policy.flag_threshold,
+      duplicate_threshold: policy.duplicate_threshold,
+      duplicate_action: policy.duplicate_action,
+      allow_links: policy.allow_links,
+      new_member_review_posts: policy.new_member_review_posts,
+    },
+    toxicity: {
+      score: toxicityResult.score,
+      model_version: toxicityResult.model_version,
+      categories: toxicityResult.categories,
+      contributions: toxicityResult.contributions,
+    },
+    matched_terms: profanityResult.matches,
+    checks: {
+      has_links: checks.hasLinks,
+      requires_new_member_review: checks.requiresNewMemberReview,
+      duplicate_matches: checks.duplicateMatches,
+      held_for_review: checks.heldForReview,
+    },
   };
 }
 
@@ -196,20 +1220,24 @@ async function logModerationAction(
   contentType: string,
   contentId: string,
   decision: ModerationDecision,
-  authorId: string
+  toxicityResult: ToxicityResult,
+  profanityResult: ProfanityResult,
+  explanation: ModerationExplanation
 ) {
   const { error } = await supabase
     .from('moderation_logs')
     .insert({
-      moderator_id: 'system', // Use system ID for automated actions
+      moderator_id: SYSTEM_ACTOR_ID,
       target_type: contentType,
       target_id: contentId,
       action: decision.action,
       reason: decision.reason,
       automated: true,
+      model_version: toxicityResult.model_version,
+      category_scores: toxicityResult.categories,
+      matched_terms: profanityResult.matches,
+      explanation,
     });
 
-  if (error) {
-    console.error('Failed to log moderation action:', error);
-  }
-}
\ No newline at end of file
+  if (error) throw error;
+}
@@ -0,0 +1,42 @@
+import { deepStrictEqual as assertEquals } from 'node:assert';
+import { DEFAULT_EXCEPTIONS, MANGLISH_TERMS, PROFANITY_TERMS, TermMatcher } from './matcher.ts';
+
+const matcher = new TermMatcher(
+  {
+    default: PROFANITY_TERMS,
+    manglish: MANGLISH_TERMS,
+  },
+  DEFAULT_EXCEPTIONS
+);
+
+const matchedTerms = (content: string) => matcher.match(content).map(match => match.term);
+
+Deno.test('everyday Malayalam words are not matched by terms with doubled letters', () => {
+  assertEquals(matchedTerms('pani kitti machane'), []);
+  assertEquals(matchedTerms('nale pani undo?'), []);
+  assertEquals(matchedTerms('exam pani aanu'), []);
+  assertEquals(matchedTerms('kuna'), []);
+});
+
+Deno.test('"mayir" is the everyday word for hair and is not matched', () => {
+  assertEquals(matchedTerms('mayir vettan pokunnu'), []);
+  assertEquals(matchedTerms('ente mayir kozhiyunnu'), []);
+});
+
+Deno.test('terms with doubled letters still match stretched and disguised spellings', () => {
+  assertEquals(matchedTerms('panni'), ['panni']);
+  assertEquals(matchedTerms('PANNNIII'), ['panni']);
+  assertEquals(matchedTerms('p a n n i'), ['panni']);
+  assertEquals(matchedTerms('kunnaaa'), ['kunna']);
+});
+
+Deno.test('stretched letters, leetspeak and spacing fold to the listed term', () => {
+  assertEquals(matchedTerms('spaaam'), ['spam']);
+  assertEquals(matchedTerms('$p@m'), ['spam']);
+  assertEquals(matchedTerms('s.p.a.m'), ['spam']);
+});
+
+Deno.test('exception phrases are not matched', () => {
+  assertEquals(matchedTerms('check your spam folder'), []);
+  assertEquals(matchedTerms('bring a cheat sheet'), []);
+});
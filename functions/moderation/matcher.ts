@@ -0,0 +1,214 @@
+export interface TermMatch {
+  term: string;
+  list: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Token {
+  value: string;
+  runs: number[];
+  start: number;
+  end: number;
+}
+
+type RawToken = Omit<Token, 'runs'>;
+
+interface CompiledTerm {
+  term: string;
+  list: string;
+  tokens: string[];
+  runs: number[][];
+}
+
+// Global word list (expand as needed)
+export const PROFANITY_TERMS = [
+  'spam', 'scam', 'fake', 'fraud', 'cheat', 'hack', 'illegal',
+];
+
+// Romanised Malayalam (Manglish) abuse common on campus
+export const MANGLISH_TERMS = [
+  'myre', 'myr', 'mairu', 'myran', 'thendi', 'panni', 'kazhuveri',
+  'thayoli', 'poori mon', 'poorimon', 'pulayadi', 'kunna', 'naari',
+];
+
+// Everyday phrases that contain a listed term but are not abusive
+export const DEFAULT_EXCEPTIONS = [
+  'cheat sheet', 'cheat code', 'fake news', 'life hack', 'growth hack',
+  'spam folder', 'spam filter', 'scam alert', 'fraud detection',
+];
+
+// Visually similar characters from other scripts, folded to their Latin lookalike
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'ё': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o',
+  'р': 'p', 'с': 'c', 'т': 't', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ѕ': 's',
+  'α': 'a', 'β': 'b', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p',
+  'τ': 't', 'υ': 'u', 'χ': 'x',
+};
+
+// Leetspeak substitutions. 'l' and '1' both fold to 'i' so that "k1ll" and "kill" compare equal.
+const LEET: Record<string, string> = {
+  '@': 'a', '4': 'a', '8': 'b', '3': 'e', '1': 'i', '!': 'i', '|': 'i', 'l': 'i',
+  '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't',
+};
+
+const TOKEN_CHAR = /[a-z0-9]/;
+
+// Letters split by at most this many separators ("s p a m", "s.p.a.m") are rejoined
+const MAX_SPACED_GAP = 2;
+const MIN_SPACED_RUN = 3;
+
+function foldCharacter(char: string): string {
+  const decomposed = char.normalize('NFKD').replace(/[\p{M}\p{Cf}]/gu, '').toLowerCase();
+  let folded = '';
+  for (const part of decomposed) {
+    const latin = CONFUSABLES[part] ?? part;
+    folded += LEET[latin] ?? latin;
+  }
+  return folded;
+}
+
+// Collapses repeated characters so "spaaam" and "spam" share a skeleton, keeping each run's length
+function squeeze(value: string): { value: string; runs: number[] } {
+  const runs = value.match(/(.)\1*/g) ?? [];
+  return { value: runs.map(run => run[0]).join(''), runs: runs.map(run => run.length) };
+}
+
+function tokenize(content: string): Token[] {
+  const tokens: RawToken[] = [];
+  let current: RawToken | null = null;
+  let index = 0;
+
+  for (const char of content) {
+    const start = index;
+    index += char.length;
+
+    for (const folded of foldCharacter(char)) {
+      if (TOKEN_CHAR.test(folded)) {
+        if (current) {
+          current.value += folded;
+          current.end = index;
+        } else {
+          current = { value: folded, start, end: index };
+        }
+      } else if (current) {
+        tokens.push(current);
+        current = null;
+      }
+    }
+
+    // Characters that fold to nothing (combining marks, zero-width spaces) do not split tokens
+  }
+
+  if (current) tokens.push(current);
+
+  return mergeSpacedLetters(tokens).map(token => ({ ...token, ...squeeze(token.value) }));
+}
+
+function mergeSpacedLetters(tokens: RawToken[]): RawToken[] {
+  const merged: RawToken[] = [];
+  let i = 0;
+
+  while (i < tokens.length) {
+    let j = i;
+    while (
+      j + 1 < tokens.length
+      && tokens[j].value.length === 1
+      && tokens[j + 1].value.length === 1
+      && tokens[j + 1].start - tokens[j].end <= MAX_SPACED_GAP
+    ) {
+      j++;
+    }
+
+    if (j - i + 1 >= MIN_SPACED_RUN) {
+      merged.push({
+        value: tokens.slice(i, j + 1).map(token => token.value).join(''),
+        start: tokens[i].start,
+        end: tokens[j].end,
+      });
+      i = j + 1;
+    } else {
+      merged.push(tokens[i]);
+      i++;
+    }
+  }
+
+  return merged;
+}
+
+function compile(term: string, list: string): CompiledTerm | null {
+  const tokens = tokenize(term);
+  return tokens.length > 0
+    ? { term, list, tokens: tokens.map(token => token.value), runs: tokens.map(token => token.runs) }
+    : null;
+}
+
+// Letters a term doubles must be doubled in the text too, so "panni" doesn't match the everyday "pani"
+function keepsDoubledLetters(token: Token, termRuns: number[]) {
+  return termRuns.every((length, index) => token.runs[index] >= length);
+}
+
+// Exceptions only need the skeleton to match, so a misspelled exception still protects the phrase
+function occurrences(tokens: Token[], terms: CompiledTerm[], strictRuns: boolean) {
+  const found: { term: CompiledTerm; from: number; to: number }[] = [];
+
+  const byFirstToken = new Map<string, CompiledTerm[]>();
+  for (const term of terms) {
+    const bucket = byFirstToken.get(term.tokens[0]) ?? [];
+    bucket.push(term);
+    byFirstToken.set(term.tokens[0], bucket);
+  }
+
+  tokens.forEach((token, from) => {
+    for (const term of byFirstToken.get(token.value) ?? []) {
+      const to = from + term.tokens.length - 1;
+      if (to >= tokens.length) continue;
+
+      const matches = term.tokens.every((value, offset) =>
+        tokens[from + offset].value === value
+        && (!strictRuns || keepsDoubledLetters(tokens[from + offset], term.runs[offset]))
+      );
+
+      if (matches) {
+        found.push({ term, from, to });
+      }
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Matches whole words and phrases after folding case, accents, confusable
+ * characters, leetspeak, stretched letters and spaced-out spelling. Matches that
+ * fall inside an exception phrase are ignored.
+ */
+export class TermMatcher {
+  private readonly terms: CompiledTerm[];
+  private readonly exceptions: CompiledTerm[];
+
+  constructor(lists: Record<string, string[]>, exceptions: string[] = []) {
+    this.terms = Object.entries(lists).flatMap(([list, terms]) =>
+      terms.map(term => compile(term, list)).filter((term): term is CompiledTerm => term !== null)
+    );
+    this.exceptions = exceptions
+      .map(exception => compile(exception, 'exception'))
+      .filter((exception): exception is CompiledTerm => exception !== null);
+  }
+
+  match(content: string): TermMatch[] {
+    const tokens = tokenize(content);
+    const allowedRanges = occurrences(tokens, this.exceptions, false);
+
+    return occurrences(tokens, this.terms, true)
+      .filter(({ from, to }) => !allowedRanges.some(range => range.from <= from && to <= range.to))
+      .map(({ term, from, to }) => ({
+        term: term.term,
+        list: term.list,
+        text: content.slice(tokens[from].start, tokens[to].end),
+        start: tokens[from].start,
+        end: tokens[to].end,
+      }));
+  }
+}
@@ -0,0 +1,67 @@
+// Number of hash functions in a MinHash signature
+const SIGNATURE_SIZE = 64;
+
+// Posts are compared as overlapping runs of this many words
+const SHINGLE_SIZE = 3;
+
+function normalize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/https?:\/\/\S+/g, url => url.replace(/[?#].*$/, ''))
+    .replace(/[^\p{L}\p{N}:/.\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function shingles(text: string): Set<string> {
+  const words = normalize(text);
+  if (words.length <= SHINGLE_SIZE) {
+    return new Set(words.length > 0 ? [words.join(' ')] : []);
+  }
+
+  const result = new Set<string>();
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+// 32-bit FNV-1a, seeded so each signature slot acts as an independent hash function
+function fnv1a(value: string, seed: number): number {
+  let hash = (0x811c9dc5 ^ Math.imul(seed, 0x9e3779b9)) >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * MinHash signature of a post's title and body. Values are stored as signed
+ * 32-bit integers so they fit a Postgres integer[] column.
+ */
+export function minhashSignature(text: string): number[] {
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+
+  for (const shingle of shingles(text)) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const hash = fnv1a(shingle, i);
+      if (hash < signature[i]) signature[i] = hash;
+    }
+  }
+
+  return signature.map(value => value | 0);
+}
+
+// Estimated Jaccard similarity of the two posts' shingle sets
+export function signatureSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return Math.round((equal / a.length) * 100) / 100;
+}
@@ -0,0 +1,76 @@
+import { deepStrictEqual as assertEquals } from 'node:assert';
+import {
+  AUTHOR_ID,
+  COMMUNITY_ID,
+  installFakeBackend,
+  seedCommunity,
+  serveFunction,
+} from '../_shared/test-backend.ts';
+
+const POST_ID = '00000000-0000-4000-8000-0000000b0001';
+
+const backend = installFakeBackend();
+seedCommunity(backend);
+
+const anonymousPost = {
+  id: POST_ID,
+  title: 'Monsoon plans',
+  content: 'Where to stay in Munnar',
+  author_id: AUTHOR_ID,
+  community_id: COMMUNITY_ID,
+  is_anonymous: true,
+  is_approved: true,
+  is_removed: false,
+  deleted_at: null,
+  post_type: 'text',
+  link_url: null,
+  moderation_status: 'approved',
+  alias_scope: 'community',
+  created_at: '2025-11-01T10:00:00Z',
+};
+
+backend.tables.posts = [anonymousPost];
+// posts_with_stats as the service role reads it: the view keeps the real author for that role
+backend.tables.posts_with_stats = [{ ...anonymousPost, is_deleted: false }];
+backend.rpc.check_rate_limit = () => ({ allowed: true, retry_after_seconds: 0, request_limit: null, remaining: null });
+backend.rpc.enqueue_moderation_job = () => crypto.randomUUID();
+
+const callPosts = await serveFunction(() => import('./index.ts'));
+
+// The posts function only reads posts to act on them; whatever it answers must not point at the author
+async function assertNoAuthorIdentity(token: string, request: Record<string, unknown>) {
+  const { status, body } = await callPosts(token, request);
+  const serialized = JSON.stringify(body);
+
+  assertEquals([status, body.success], [200, true]);
+  assertEquals(serialized.includes('@example.com'), false);
+  assertEquals(serialized.includes('"author_id"'), false);
+
+  if (token !== 'author') {
+    assertEquals(serialized.includes(AUTHOR_ID), false);
+  }
+}
+
+Deno.test('creating an anonymous post answers the author without their identity', async () => {
+  await assertNoAuthorIdentity('author', {
+    action: 'create',
+    title: 'Best tea estates',
+    content: 'Which ones are open to visitors?',
+    community_id: COMMUNITY_ID,
+    is_anonymous: true,
+  });
+});
+
+Deno.test('votes on an anonymous post reveal nothing about its author', async () => {
+  for (const token of ['moderator', 'member']) {
+    await assertNoAuthorIdentity(token, { action: 'vote', post_id: POST_ID, vote_type: 'up' });
+  }
+});
+
+Deno.test('editing an anonymous post answers the author without their identity', async () => {
+  await assertNoAuthorIdentity('author', {
+    action: 'edit',
+    post_id: POST_ID,
+    content: 'Where to stay in Munnar in July',
+  });
+});
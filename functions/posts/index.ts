@@ -1,17 +1,43 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { ensureAnonymousAlias } from '../_shared/anonymity.ts';
+import { assertAttachable, attachUploads } from '../_shared/attachments.ts';
+import { assertNotBanned } from '../_shared/bans.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { assertMinimumKarma } from '../_shared/karma.ts';
+import { renderMarkdown } from '../_shared/markdown.ts';
+import { loadModerationPolicy } from '../_shared/moderation-policy.ts';
+import { getEditModerationStatus } from '../_shared/moderation-status.ts';
+import { assertCanModerate, assertCanVote } from '../_shared/permissions.ts';
+import { checkRateLimit } from '../_shared/rate-limit.ts';
+import { minhashSignature, signatureSimilarity } from './duplicates.ts';
+import { assertLinkAllowed, fetchLinkPreview, LinkPreview, normalizeLinkUrl } from './links.ts';
+import { PollInput, PollSettings, validatePoll } from './polls.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+// How far back new posts are compared for duplicates
+const AUTHOR_DUPLICATE_WINDOW_HOURS = 7 * 24;
+const COMMUNITY_DUPLICATE_WINDOW_HOURS = 24;
+
+// Most recent posts compared from each window, so a busy community can't crowd out the author's own
+const DUPLICATE_CANDIDATE_LIMIT = 200;
+
+// Cached link previews are refetched after this long; failed fetches are retried sooner
+const LINK_PREVIEW_TTL_HOURS = 24;
+const FAILED_LINK_PREVIEW_TTL_HOURS = 1;
+
 interface CreatePostRequest {
   action: 'create';
   title: string;
   content: string;
   community_id: string;
   is_anonymous: boolean;
+  poll?: PollInput;
+  link_url?: string;
+  attachment_ids?: string[];
 }
 
 interface VoteRequest {
@@ -20,7 +46,33 @@ interface VoteRequest {
   vote_type: 'up' | 'down' | null;
 }
 
-type PostRequest = CreatePostRequest | VoteRequest;
+interface VotePollRequest {
+  action: 'vote_poll';
+  post_id: string;
+  option_ids: string[];
+}
+
+interface EditPostRequest {
+  action: 'edit';
+  post_id: string;
+  title?: string;
+  content?: string;
+}
+
+interface DeletePostRequest {
+  action: 'delete';
+  post_id: string;
+  reason?: string;
+}
+
+type PostRequest = CreatePostRequest | VoteRequest | VotePollRequest | EditPostRequest | DeletePostRequest;
+
+interface DuplicateMatchRow {
+  post_id: string;
+  matched_post_id: string;
+  similarity: number;
+  scope: 'author' | 'community' | 'link';
+}
 
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
@@ -51,6 +103,12 @@ Deno.serve(async (req: Request) => {
       return await handleCreatePost(requestData, user.id);
     } else if (requestData.action === 'vote') {
       return await handleVotePost(requestData, user.id);
+    } else if (requestData.action === 'vote_poll') {
+      return await handleVotePoll(requestData, user.id);
+    } else if (requestData.action === 'edit') {
+      return await handleEditPost(requestData, user.id);
+    } else if (requestData.action === 'delete') {
+      return await handleDeletePost(requestData, user.id);
     }
 
     throw new Error('Invalid action');
@@ -72,10 +130,10 @@ Deno.serve(async (req: Request) => {
 });
 
 async function handleCreatePost(data: CreatePostRequest, userId: string) {
-  const { title, content, community_id, is_anonymous } = data;
+  const { title, content = '', community_id, is_anonymous, poll, link_url, attachment_ids = [] } = data;
 
-  // Validate input
-  if (!title.trim() || !content.trim() || !community_id) {
+  // Validate input; polls and links can stand on their title alone
+  if (!title.trim() || (!content.trim() && !poll && !link_url) || !community_id) {
     throw new Error('Missing required fields');
   }
 
@@ -83,6 +141,15 @@ async function handleCreatePost(data: CreatePostRequest, userId: string) {
     throw new Error('Content too long');
   }
 
+  if (poll && link_url) {
+    throw new Error('A post can have a poll or a link, not both');
+  }
+
+  const pollSettings = poll ? validatePoll(poll) : null;
+  const linkUrl = link_url ? normalizeLinkUrl(link_url) : null;
+
+  await assertNotBanned(supabase, userId, community_id);
+
   // Check if user is member of community
   const { data: membership } = await supabase
     .from('memberships')
@@ -95,29 +162,90 @@ async function handleCreatePost(data: CreatePostRequest, userId: string) {
     throw new Error('You must be a member of this community to post');
   }
 
+  const policy = await loadModerationPolicy(supabase, community_id);
+  await assertMinimumKarma(supabase, userId, community_id, policy.min_post_karma, 'post');
+
+  const rateLimited = await checkRateLimit(supabase, userId, 'post', community_id);
+  if (rateLimited) return rateLimited;
+
+  await assertAttachable(supabase, userId, community_id, 'post', attachment_ids);
+
+  // The thread keeps the community's anonymity mode from when it was posted
+  const { data: community } = await supabase
+    .from('communities')
+    .select('anonymity_mode')
+    .eq('id', community_id)
+    .single();
+
+  if (!community) {
+    throw new Error('Community not found');
+  }
+
+  let linkPreview: LinkPreview | null = null;
+  if (linkUrl) {
+    assertLinkAllowed(linkUrl, policy);
+
+    linkPreview = await getLinkPreview(linkUrl);
+
+    // Shortened and redirecting links have to pass the domain lists where they end up too
+    if (linkPreview && linkPreview.final_url !== linkUrl) {
+      assertLinkAllowed(linkPreview.final_url, policy);
+    }
+  }
+
+  const signature = minhashSignature(title.trim() + ' ' + content.trim());
+
   // Create the post
   const { data: post, error: postError } = await supabase
     .from('posts')
     .insert({
       title: title.trim(),
       content: content.trim(),
+      content_html: renderMarkdown(content.trim()).html,
       author_id: userId,
       community_id,
       is_anonymous,
       moderation_status: 'pending',
+      minhash: signature,
+      post_type: pollSettings ? 'poll' : linkUrl ? 'link' : 'text',
+      link_url: linkUrl,
+      alias_scope: community.anonymity_mode,
     })
     .select()
     .single();
 
   if (postError) throw postError;
 
+  if (pollSettings) {
+    await createPoll(post.id, pollSettings);
+  }
+
+  await attachUploads(supabase, 'post', post.id, attachment_ids);
+
+  // Record near duplicates and earlier posts of the same link before moderation so the policy can act on them
+  const duplicateMatches = await recordDuplicateMatches(
+    post.id,
+    userId,
+    community_id,
+    signature,
+    linkUrl ? linkVariants(linkUrl, linkPreview) : []
+  );
+  const sameLinkPostIds = duplicateMatches
+    .filter(match => match.scope === 'link')
+    .map(match => match.matched_post_id);
+
   // Generate anonymous alias if needed
   if (is_anonymous) {
-    await generateAnonymousAlias(userId, community_id);
+    await ensureAnonymousAlias(
+      supabase,
+      userId,
+      post.alias_scope,
+      post.alias_scope === 'thread' ? post.id : community_id
+    );
   }
 
   // Trigger moderation check
-  await triggerModerationCheck(post.id, 'post', content);
+  await triggerModerationCheck(post.id, 'post');
 
   // Update trending topics
   await updateTrendingTopics(title + ' ' + content);
@@ -126,7 +254,20 @@ async function handleCreatePost(data: CreatePostRequest, userId: string) {
     JSON.stringify({
       success: true,
       post_id: post.id,
-      message: 'Post created and submitted for moderation',
+      ...(linkUrl && {
+        link: {
+          url: linkUrl,
+          canonical_url: linkPreview?.canonical_url ?? null,
+          title: linkPreview?.title ?? null,
+          description: linkPreview?.description ?? null,
+          site_name: linkPreview?.site_name ?? null,
+          image_url: linkPreview?.image_url ?? null,
+        },
+        same_link_post_ids: sameLinkPostIds,
+      }),
+      message: sameLinkPostIds.length > 0
+        ? 'Post created and submitted for moderation; this link has been posted in the community before'
+        : 'Post created and submitted for moderation',
     }),
     {
       headers: {
@@ -140,6 +281,26 @@ async function handleCreatePost(data: CreatePostRequest, userId: string) {
 async function handleVotePost(data: VoteRequest, userId: string) {
   const { post_id, vote_type } = data;
 
+  const { data: post } = await supabase
+    .from('posts_with_stats')
+    .select('community_id, is_deleted')
+    .eq('id', post_id)
+    .single();
+
+  if (!post) {
+    throw new Error('Post not found or not accessible');
+  }
+
+  if (post.is_deleted) {
+    throw new Error('This post has been deleted');
+  }
+
+  await assertNotBanned(supabase, userId, post.community_id);
+  await assertCanVote(supabase, userId, post.community_id);
+
+  const rateLimited = await checkRateLimit(supabase, userId, 'vote', post.community_id);
+  if (rateLimited) return rateLimited;
+
   if (vote_type === null) {
     // Remove existing vote
     const { error } = await supabase
@@ -176,35 +337,486 @@ async function handleVotePost(data: VoteRequest, userId: string) {
   );
 }
 
-async function generateAnonymousAlias(userId: string, communityId: string) {
-  const { data: existingAlias } = await supabase
-    .from('anon_aliases')
-    .select('alias_name')
+async function handleVotePoll(data: VotePollRequest, userId: string) {
+  const { post_id, option_ids } = data;
+
+  if (!post_id || !Array.isArray(option_ids) || option_ids.length === 0) {
+    throw new Error('Post ID and at least one option are required');
+  }
+
+  const { data: post } = await supabase
+    .from('posts_with_stats')
+    .select('community_id, is_approved, is_deleted, post_type')
+    .eq('id', post_id)
+    .single();
+
+  if (!post || !post.is_approved || post.post_type !== 'poll') {
+    throw new Error('Poll not found or not accessible');
+  }
+
+  if (post.is_deleted) {
+    throw new Error('This post has been deleted');
+  }
+
+  await assertNotBanned(supabase, userId, post.community_id);
+
+  // Only members of the community get a ballot
+  const { data: membership } = await supabase
+    .from('memberships')
+    .select('status')
     .eq('user_id', userId)
-    .eq('community_id', communityId)
+    .eq('community_id', post.community_id)
     .single();
 
-  if (!existingAlias) {
-    const aliasName = 'Anon-' + Math.random().toString(36).substring(2, 8).toUpperCase();
-    
-    await supabase
-      .from('anon_aliases')
+  if (!membership || membership.status !== 'approved') {
+    throw new Error('You must be a member of this community to vote in its polls');
+  }
+
+  const rateLimited = await checkRateLimit(supabase, userId, 'vote', post.community_id);
+  if (rateLimited) return rateLimited;
+
+  const { data: poll } = await supabase
+    .from('polls')
+    .select('allows_multiple, closes_at')
+    .eq('post_id', post_id)
+    .single();
+
+  if (!poll) {
+    throw new Error('Poll not found or not accessible');
+  }
+
+  if (poll.closes_at && new Date(poll.closes_at) <= new Date()) {
+    throw new Error('This poll has closed');
+  }
+
+  const choices = [...new Set(option_ids)];
+
+  if (!poll.allows_multiple && choices.length > 1) {
+    throw new Error('This poll allows only one choice');
+  }
+
+  const { data: options, error: optionsError } = await supabase
+    .from('poll_options')
+    .select('id')
+    .eq('post_id', post_id);
+
+  if (optionsError) throw optionsError;
+
+  const validOptionIds = new Set((options || []).map(option => option.id));
+  if (choices.some(optionId => !validOptionIds.has(optionId))) {
+    throw new Error('Invalid poll option');
+  }
+
+  const { error: ballotError } = await supabase
+    .from('poll_ballots')
+    .insert({
+      post_id,
+      user_id: userId,
+      option_ids: choices,
+    });
+
+  // Ballots are final; the primary key rejects a second one
+  if (ballotError?.code === '23505') {
+    throw new Error('You have already voted in this poll');
+  }
+
+  if (ballotError) throw ballotError;
+
+  const { data: results, error: resultsError } = await supabase.rpc('get_poll_results', {
+    p_post_id: post_id,
+  });
+
+  if (resultsError) throw resultsError;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      poll: { ...results, my_choices: choices },
+      message: 'Vote recorded',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleEditPost(data: EditPostRequest, userId: string) {
+  const { post_id, title, content } = data;
+
+  if (!post_id || (title === undefined && content === undefined)) {
+    throw new Error('Post ID and new title or content are required');
+  }
+
+  const { data: post } = await supabase
+    .from('posts')
+    .select('title, content, author_id, community_id, is_removed, deleted_at, post_type, link_url, moderation_status')
+    .eq('id', post_id)
+    .single();
+
+  if (!post || post.is_removed || post.deleted_at) {
+    throw new Error('Post not found');
+  }
+
+  if (post.author_id !== userId) {
+    throw new Error('You can only edit your own posts');
+  }
+
+  const newTitle = title !== undefined ? title.trim() : post.title;
+  const newContent = content !== undefined ? content.trim() : post.content;
+
+  // Validate input
+  if (!newTitle || (!newContent && post.post_type === 'text')) {
+    throw new Error('Missing required fields');
+  }
+
+  if (newTitle.length > 300 || newContent.length > 10000) {
+    throw new Error('Content too long');
+  }
+
+  if (newTitle === post.title && newContent === post.content) {
+    throw new Error('No changes to save');
+  }
+
+  await assertNotBanned(supabase, userId, post.community_id);
+
+  // Keep the previous version so moderators can review what changed
+  const { error: revisionError } = await supabase
+    .from('content_revisions')
+    .insert({
+      target_type: 'post',
+      target_id: post_id,
+      title: post.title,
+      content: post.content,
+      edited_by: userId,
+    });
+
+  if (revisionError) throw revisionError;
+
+  const moderationStatus = await getEditModerationStatus(supabase, 'post', post_id, post.moderation_status);
+
+  // Edited posts are hidden again until they pass moderation
+  const now = new Date().toISOString();
+  const signature = minhashSignature(newTitle + ' ' + newContent);
+  const { error: updateError } = await supabase
+    .from('posts')
+    .update({
+      title: newTitle,
+      content: newContent,
+      content_html: renderMarkdown(newContent).html,
+      is_approved: false,
+      moderation_status: moderationStatus,
+      minhash: signature,
+      edited_at: now,
+      updated_at: now,
+    })
+    .eq('id', post_id);
+
+  if (updateError) throw updateError;
+
+  const linkPreview = post.link_url ? await getLinkPreview(post.link_url) : null;
+  await recordDuplicateMatches(
+    post_id,
+    userId,
+    post.community_id,
+    signature,
+    post.link_url ? linkVariants(post.link_url, linkPreview) : []
+  );
+
+  // Trigger moderation check
+  await triggerModerationCheck(post_id, 'post');
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      post_id,
+      edited_at: now,
+      message: 'Post updated and resubmitted for moderation',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleDeletePost(data: DeletePostRequest, userId: string) {
+  const { post_id, reason } = data;
+
+  const { data: post } = await supabase
+    .from('posts')
+    .select('author_id, community_id, deleted_at')
+    .eq('id', post_id)
+    .single();
+
+  if (!post || post.deleted_at) {
+    throw new Error('Post not found');
+  }
+
+  // Authors delete their own posts; anyone else must moderate the community
+  const deletionType = post.author_id === userId ? 'author' : 'moderator';
+
+  if (deletionType === 'moderator') {
+    await assertCanModerate(supabase, userId, post.community_id);
+
+    if (!reason?.trim()) {
+      throw new Error('A reason is required when removing a post');
+    }
+  }
+
+  // Soft delete so the comment thread stays readable
+  const now = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from('posts')
+    .update({
+      deleted_at: now,
+      deleted_by: userId,
+      deletion_type: deletionType,
+      updated_at: now,
+    })
+    .eq('id', post_id);
+
+  if (updateError) throw updateError;
+
+  if (deletionType === 'moderator') {
+    const { error: logError } = await supabase
+      .from('moderation_logs')
       .insert({
-        user_id: userId,
-        community_id: communityId,
-        alias_name: aliasName,
+        moderator_id: userId,
+        target_type: 'post',
+        target_id: post_id,
+        action: 'remove',
+        reason: reason!.trim(),
+        automated: false,
       });
+
+    if (logError) throw logError;
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message: deletionType === 'author' ? 'Post deleted' : 'Post removed',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function createPoll(postId: string, poll: PollSettings) {
+  try {
+    const { error: pollError } = await supabase
+      .from('polls')
+      .insert({
+        post_id: postId,
+        allows_multiple: poll.allows_multiple,
+        closes_at: poll.closes_at,
+        hide_results_until_close: poll.hide_results_until_close,
+      });
+
+    if (pollError) throw pollError;
+
+    const { error: optionsError } = await supabase
+      .from('poll_options')
+      .insert(poll.options.map((label, index) => ({
+        post_id: postId,
+        position: index + 1,
+        label,
+      })));
+
+    if (optionsError) throw optionsError;
+  } catch (error) {
+    // A poll post without its options is unusable, so take the post back out
+    await supabase.from('posts').delete().eq('id', postId);
+    throw error;
   }
 }
 
-async function triggerModerationCheck(contentId: string, contentType: string, content: string) {
+// Compares a post with the author's recent posts anywhere and the community's recent posts,
+// and links it to earlier posts of the same link in the community
+async function recordDuplicateMatches(
+  postId: string,
+  userId: string,
+  communityId: string,
+  signature: number[],
+  linkUrls: string[]
+): Promise<DuplicateMatchRow[]> {
+  const policy = await loadModerationPolicy(supabase, communityId);
+
+  const matches = await findSameLinkPosts(postId, communityId, linkUrls);
+
+  if (policy.duplicate_action !== 'off') {
+    const authorSince = new Date(Date.now() - AUTHOR_DUPLICATE_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+    const communitySince = new Date(Date.now() - COMMUNITY_DUPLICATE_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+
+    const [authorCandidates, communityCandidates] = await Promise.all([
+      getDuplicateCandidates(postId, 'author_id', userId, authorSince),
+      getDuplicateCandidates(postId, 'community_id', communityId, communitySince),
+    ]);
+
+    // The author's posts in this community can turn up in both lists
+    const linked = new Set(matches.map(match => match.matched_post_id));
+    const authorPostIds = new Set(authorCandidates.map(candidate => candidate.id));
+    const candidates = [
+      ...authorCandidates,
+      ...communityCandidates.filter(candidate => !authorPostIds.has(candidate.id)),
+    ];
+
+    matches.push(...candidates
+      .filter(candidate => !linked.has(candidate.id))
+      .map(candidate => ({
+        post_id: postId,
+        matched_post_id: candidate.id,
+        similarity: signatureSimilarity(signature, candidate.minhash),
+        scope: candidate.author_id === userId ? 'author' as const : 'community' as const,
+      }))
+      .filter(match => match.similarity >= policy.duplicate_threshold));
+  }
+
+  // Drop matches from an earlier version of an edited post
+  const { error: clearError } = await supabase
+    .from('post_duplicate_matches')
+    .delete()
+    .eq('post_id', postId);
+
+  if (clearError) throw clearError;
+
+  if (matches.length === 0) return matches;
+
+  const { error: insertError } = await supabase
+    .from('post_duplicate_matches')
+    .insert(matches);
+
+  if (insertError) throw insertError;
+
+  return matches;
+}
+
+// Recent posts by the author anywhere, or by anyone in the community, that have a signature
+async function getDuplicateCandidates(
+  postId: string,
+  column: 'author_id' | 'community_id',
+  value: string,
+  since: string
+) {
+  const { data: candidates, error } = await supabase
+    .from('posts')
+    .select('id, author_id, created_at, minhash')
+    .eq(column, value)
+    .gte('created_at', since)
+    .neq('id', postId)
+    .is('deleted_at', null)
+    .not('minhash', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(DUPLICATE_CANDIDATE_LIMIT);
+
+  if (error) throw error;
+
+  return candidates || [];
+}
+
+// Earlier posts of the same link in a community, however long ago. They are linked from the post
+// but left out of the duplicate check, which only looks at similar text within its time windows.
+async function findSameLinkPosts(postId: string, communityId: string, linkUrls: string[]): Promise<DuplicateMatchRow[]> {
+  if (linkUrls.length === 0) return [];
+
+  const { data: earlierPosts, error } = await supabase
+    .from('posts')
+    .select('id')
+    .eq('community_id', communityId)
+    .in('link_url', linkUrls)
+    .neq('id', postId)
+    .is('deleted_at', null)
+    .eq('is_removed', false)
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (error) throw error;
+
+  return (earlierPosts || []).map(earlierPost => ({
+    post_id: postId,
+    matched_post_id: earlierPost.id,
+    similarity: 1,
+    scope: 'link' as const,
+  }));
+}
+
+// A link also matches posts of the page it redirects to or names as canonical
+function linkVariants(linkUrl: string, preview: LinkPreview | null): string[] {
+  return [...new Set([linkUrl, preview?.final_url, preview?.canonical_url]
+    .filter((url): url is string => Boolean(url)))];
+}
+
+// Reads the cached preview for a link, fetching the page when there is none or it is stale.
+// A page that cannot be fetched does not stop the post; it is shown as a plain link.
+async function getLinkPreview(url: string): Promise<LinkPreview | null> {
+  const { data: cached, error } = await supabase
+    .from('link_previews')
+    .select('final_url, canonical_url, title, description, site_name, image_url, status, fetched_at')
+    .eq('url', url)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (cached) {
+    const ttlHours = cached.status === 'ok' ? LINK_PREVIEW_TTL_HOURS : FAILED_LINK_PREVIEW_TTL_HOURS;
+    if (Date.now() - new Date(cached.fetched_at).getTime() < ttlHours * 60 * 60 * 1000) {
+      const { status, fetched_at: _fetchedAt, ...preview } = cached;
+      return status === 'ok' ? preview : null;
+    }
+  }
+
+  let preview: LinkPreview | null = null;
+  let fetchError: string | null = null;
+  try {
+    preview = await fetchLinkPreview(url);
+  } catch (error) {
+    console.error(`Failed to fetch link preview for ${url}:`, error);
+    fetchError = error.message || 'Fetch failed';
+  }
+
+  const { error: cacheError } = await supabase
+    .from('link_previews')
+    .upsert({
+      url,
+      final_url: preview?.final_url ?? null,
+      canonical_url: preview?.canonical_url ?? null,
+      title: preview?.title ?? null,
+      description: preview?.description ?? null,
+      site_name: preview?.site_name ?? null,
+      image_url: preview?.image_url ?? null,
+      status: preview ? 'ok' : 'failed',
+      error: fetchError,
+      fetched_at: new Date().toISOString(),
+    });
+
+  if (cacheError) throw cacheError;
+
+  return preview;
+}
+
+async function triggerModerationCheck(contentId: string, contentType: 'post' | 'comment') {
+  // The job row is the durable record; if the kick below is lost the sweeper picks it up
+  const { data: jobId, error } = await supabase.rpc('enqueue_moderation_job', {
+    p_content_type: contentType,
+    p_content_id: contentId,
+  });
+
+  if (error) throw error;
+
   try {
     await supabase.functions.invoke('moderation', {
       body: {
-        content,
-        content_type: contentType,
-        content_id: contentId,
-        author_id: 'system',
+        action: 'process_queue',
+        job_id: jobId,
       },
     });
   } catch (error) {
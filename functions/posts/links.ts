@@ -0,0 +1,395 @@
+import type { ModerationPolicy } from '../_shared/moderation-policy.ts';
+
+const MAX_URL_LENGTH = 2048;
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_REDIRECTS = 3;
+
+// Metadata lives in the <head>, so there is no need to read whole pages
+const MAX_HTML_BYTES = 512 * 1024;
+
+const USER_AGENT = 'WhatTheDUK-LinkPreview/1.0';
+
+// Query parameters that only identify where a click came from
+const TRACKING_PARAM = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref_src)$/i;
+
+export interface LinkPreview {
+  final_url: string;
+  canonical_url: string | null;
+  title: string | null;
+  description: string | null;
+  site_name: string | null;
+  image_url: string | null;
+}
+
+/**
+ * Normalises a submitted link so the same page is stored under one URL:
+ * http(s) only, no credentials or fragment, tracking parameters removed and
+ * the rest sorted. Throws with a user-facing message on invalid input.
+ */
+export function normalizeLinkUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw new Error('Link must be a valid URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Links must start with http:// or https://');
+  }
+
+  if (url.username || url.password) {
+    throw new Error('Links cannot contain a username or password');
+  }
+
+  url.hostname = url.hostname.replace(/\.$/, '');
+  url.hash = '';
+
+  for (const key of [...url.searchParams.keys()]) {
+    if (TRACKING_PARAM.test(key)) url.searchParams.delete(key);
+  }
+  url.searchParams.sort();
+
+  const normalized = url.toString();
+  if (normalized.length > MAX_URL_LENGTH) {
+    throw new Error(`Link too long (max ${MAX_URL_LENGTH} characters)`);
+  }
+
+  return normalized;
+}
+
+function matchesDomain(hostname: string, domain: string) {
+  return hostname === domain || hostname.endsWith('.' + domain);
+}
+
+// Blocked domains win over allowed ones; an empty allow list allows everything else
+export function assertLinkAllowed(url: string, policy: ModerationPolicy) {
+  if (!policy.allow_links) {
+    throw new Error('This community does not allow links');
+  }
+
+  const hostname = new URL(url).hostname;
+
+  if (policy.blocked_domains.some(domain => matchesDomain(hostname, domain))) {
+    throw new Error(`Links to ${hostname} are not allowed in this community`);
+  }
+
+  if (policy.allowed_domains.length > 0 && !policy.allowed_domains.some(domain => matchesDomain(hostname, domain))) {
+    throw new Error(`Links to ${hostname} are not allowed in this community`);
+  }
+}
+
+/**
+ * Fetches a page and reads its OpenGraph and meta tags. Every hop of a
+ * redirect is checked so the server never requests a private or internal
+ * address on a user's behalf. Throws when the page cannot be fetched.
+ */
+export async function fetchLinkPreview(url: string): Promise<LinkPreview> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    let current = url;
+
+    for (let redirects = 0; ; redirects++) {
+      await assertPublicUrl(current);
+
+      const response = await fetch(current, {
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: {
+          'Accept': 'text/html,application/xhtml+xml',
+          'User-Agent': USER_AGENT,
+        },
+      });
+
+      if (response.status >= 300 && response.status < 400) {
+        await response.body?.cancel();
+
+        const location = response.headers.get('location');
+        if (!location) {
+          throw new Error(`Redirect without a location (HTTP ${response.status})`);
+        }
+
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error('Too many redirects');
+        }
+
+        current = normalizeLinkUrl(new URL(location, current).toString());
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new Error(`Page returned HTTP ${response.status}`);
+      }
+
+      // Files and other non-HTML links are fine to share; they just have no preview
+      const contentType = response.headers.get('content-type') ?? '';
+      if (!/^(text\/html|application\/xhtml\+xml)/i.test(contentType)) {
+        await response.body?.cancel();
+        return emptyPreview(current);
+      }
+
+      return parseMetadata(await readHead(response), current);
+    }
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw new Error(`Page took longer than ${FETCH_TIMEOUT_MS / 1000} seconds to respond`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function emptyPreview(finalUrl: string): LinkPreview {
+  return {
+    final_url: finalUrl,
+    canonical_url: null,
+    title: null,
+    description: null,
+    site_name: null,
+    image_url: null,
+  };
+}
+
+// Only the standard ports on hosts that resolve to public addresses.
+// fetch resolves the name again, so a host that changes its answer between the two lookups can
+// still get through; requests are plain GETs without credentials to limit what that exposes.
+async function assertPublicUrl(url: string) {
+  const { protocol, port, hostname } = new URL(url);
+
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error('Only http and https links can be previewed');
+  }
+
+  if (port && port !== '80' && port !== '443') {
+    throw new Error('Only links on the standard web ports can be previewed');
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) {
+    throw new Error('Links to private or internal addresses cannot be previewed');
+  }
+
+  let addresses: string[];
+  if (parseIPv4(host) || host.includes(':')) {
+    addresses = [host];
+  } else {
+    const [ipv4, ipv6] = await Promise.all([
+      Deno.resolveDns(host, 'A').catch(() => [] as string[]),
+      Deno.resolveDns(host, 'AAAA').catch(() => [] as string[]),
+    ]);
+    addresses = [...ipv4, ...ipv6];
+  }
+
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${host}`);
+  }
+
+  if (!addresses.every(isPublicAddress)) {
+    throw new Error('Links to private or internal addresses cannot be previewed');
+  }
+}
+
+function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPublicIPv4(ipv4);
+
+  const ipv6 = parseIPv6(address);
+  return ipv6 !== null && isPublicIPv6(ipv6);
+}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part))) return null;
+
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+function isPublicIPv4([a, b, c]: number[]): boolean {
+  return !(
+    a === 0 // "this" network
+    || a === 10 // private
+    || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+    || a === 127 // loopback
+    || (a === 169 && b === 254) // link-local, including cloud metadata endpoints
+    || (a === 172 && b >= 16 && b <= 31) // private
+    || (a === 192 && b === 0 && (c === 0 || c === 2)) // protocol assignments, documentation
+    || (a === 192 && b === 168) // private
+    || (a === 198 && (b === 18 || b === 19)) // benchmarking
+    || (a === 198 && b === 51 && c === 100) // documentation
+    || (a === 203 && b === 0 && c === 113) // documentation
+    || a >= 224 // multicast, reserved and broadcast
+  );
+}
+
+// Expands an IPv6 address into its eight 16-bit groups
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+
+  // A trailing dotted IPv4 address fills the last two groups
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const ipv4 = parseIPv4(dotted[2]);
+    if (!ipv4) return null;
+    text = dotted[1]
+      + ((ipv4[0] << 8) | ipv4[1]).toString(16) + ':'
+      + ((ipv4[2] << 8) | ipv4[3]).toString(16);
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+
+  return groups.map(group => parseInt(group, 16));
+}
+
+function isPublicIPv6(groups: number[]): boolean {
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+  const embeddedIPv4 = [g6 >> 8, g6 & 0xff, g7 >> 8, g7 & 0xff];
+
+  // Unspecified, loopback and IPv4-compatible addresses
+  if (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0) {
+    return g6 !== 0 && isPublicIPv4(embeddedIPv4);
+  }
+
+  // IPv4-mapped addresses and the NAT64 prefix reach IPv4 hosts
+  if (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0xffff) {
+    return isPublicIPv4(embeddedIPv4);
+  }
+  if (g0 === 0x64 && g1 === 0xff9b && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0) {
+    return isPublicIPv4(embeddedIPv4);
+  }
+
+  // 6to4 carries an IPv4 address in the second and third groups
+  if (g0 === 0x2002) {
+    return isPublicIPv4([g1 >> 8, g1 & 0xff, g2 >> 8, g2 & 0xff]);
+  }
+
+  return !(
+    (g0 === 0x100 && g1 === 0 && g2 === 0 && g3 === 0) // discard
+    || (g0 === 0x2001 && g1 === 0xdb8) // documentation
+    || (g0 & 0xfe00) === 0xfc00 // unique local
+    || (g0 & 0xffc0) === 0xfe80 // link-local
+    || (g0 & 0xffc0) === 0xfec0 // site-local
+    || (g0 & 0xff00) === 0xff00 // multicast
+  );
+}
+
+// Reads the response until the end of <head> or the size cap, whichever comes first
+async function readHead(response: Response): Promise<string> {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let html = '';
+  let bytes = 0;
+
+  while (bytes < MAX_HTML_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    bytes += value.byteLength;
+    html += decoder.decode(value, { stream: true });
+
+    if (/<\/head>/i.test(html)) break;
+  }
+
+  await reader.cancel();
+  return html.slice(0, MAX_HTML_BYTES);
+}
+
+function parseMetadata(html: string, pageUrl: string): LinkPreview {
+  const meta = new Map<string, string>();
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property ?? attributes.name)?.toLowerCase();
+    if (key && attributes.content !== undefined && !meta.has(key)) {
+      meta.set(key, attributes.content);
+    }
+  }
+
+  let canonicalHref: string | undefined;
+  for (const [tag] of html.matchAll(/<link\s[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    if (attributes.rel?.toLowerCase().split(/\s+/).includes('canonical')) {
+      canonicalHref = attributes.href;
+      break;
+    }
+  }
+
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  return {
+    final_url: pageUrl,
+    canonical_url: resolveUrl(canonicalHref ?? meta.get('og:url'), pageUrl, true),
+    title: cleanText(meta.get('og:title') ?? meta.get('twitter:title') ?? titleTag, 300),
+    description: cleanText(meta.get('og:description') ?? meta.get('twitter:description') ?? meta.get('description'), 1000),
+    site_name: cleanText(meta.get('og:site_name'), 100),
+    image_url: resolveUrl(meta.get('og:image') ?? meta.get('twitter:image'), pageUrl, false),
+  };
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([a-zA-Z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = match[2] ?? match[3] ?? match[4];
+    }
+  }
+  return attributes;
+}
+
+// Resolves relative URLs against the page; anything that is not http(s) is dropped
+function resolveUrl(value: string | undefined, pageUrl: string, normalize: boolean): string | null {
+  if (!value?.trim()) return null;
+
+  try {
+    const url = new URL(decodeEntities(value.trim()), pageUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return normalize ? normalizeLinkUrl(url.toString()) : url.toString().slice(0, MAX_URL_LENGTH);
+  } catch {
+    return null;
+  }
+}
+
+function cleanText(value: string | undefined, maxLength: number): string | null {
+  if (!value) return null;
+
+  const text = decodeEntities(value.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+
+  return text.length > maxLength ? text.slice(0, maxLength - 1).trimEnd() + '…' : text;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,76 @@
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+const MAX_OPTION_LENGTH = 100;
+
+// Polls have to stay open long enough for people to see them, and not linger for ever
+const MIN_POLL_DURATION_MS = 5 * 60 * 1000;
+const MAX_POLL_DURATION_MS = 90 * 24 * 60 * 60 * 1000;
+
+export interface PollInput {
+  options: string[];
+  allows_multiple?: boolean;
+  closes_at?: string;
+  hide_results_until_close?: boolean;
+}
+
+export interface PollSettings {
+  options: string[];
+  allows_multiple: boolean;
+  closes_at: string | null;
+  hide_results_until_close: boolean;
+}
+
+/**
+ * Validates a poll submitted with a new post and returns its trimmed options
+ * and settings. Throws with a user-facing message on invalid input.
+ */
+export function validatePoll(poll: PollInput): PollSettings {
+  if (!Array.isArray(poll.options)) {
+    throw new Error('Poll options are required');
+  }
+
+  const options = poll.options.map(option => (typeof option === 'string' ? option.trim() : ''));
+
+  if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+    throw new Error(`Polls need between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options`);
+  }
+
+  if (options.some(option => !option)) {
+    throw new Error('Poll options cannot be empty');
+  }
+
+  if (options.some(option => option.length > MAX_OPTION_LENGTH)) {
+    throw new Error(`Poll options must be at most ${MAX_OPTION_LENGTH} characters`);
+  }
+
+  if (new Set(options.map(option => option.toLowerCase())).size !== options.length) {
+    throw new Error('Poll options must be different from each other');
+  }
+
+  let closesAt: string | null = null;
+  if (poll.closes_at) {
+    const closes = new Date(poll.closes_at);
+    if (Number.isNaN(closes.getTime())) {
+      throw new Error('Poll closing time must be an ISO 8601 timestamp');
+    }
+
+    const duration = closes.getTime() - Date.now();
+    if (duration < MIN_POLL_DURATION_MS || duration > MAX_POLL_DURATION_MS) {
+      throw new Error('Polls must close between 5 minutes and 90 days from now');
+    }
+
+    closesAt = closes.toISOString();
+  }
+
+  const hideResults = poll.hide_results_until_close === true;
+  if (hideResults && !closesAt) {
+    throw new Error('Results can only be hidden until close when the poll has a closing time');
+  }
+
+  return {
+    options,
+    allows_multiple: poll.allows_multiple === true,
+    closes_at: closesAt,
+    hide_results_until_close: hideResults,
+  };
+}
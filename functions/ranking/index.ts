@@ -0,0 +1,243 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// Stop starting new batches after this long so the run finishes inside the function timeout
+const DEFAULT_MAX_DURATION_MS = 50_000;
+
+interface RecomputeRequest {
+  action: 'recompute';
+  batch_size?: number;
+  max_duration_ms?: number;
+}
+
+interface GetSettingsRequest {
+  action: 'get_settings';
+}
+
+interface UpdateSettingsRequest {
+  action: 'update_settings';
+  gravity?: number;
+  comment_weight?: number;
+  recompute_window_hours?: number;
+}
+
+type RankingRequest = RecomputeRequest | GetSettingsRequest | UpdateSettingsRequest;
+
+interface RecomputeBatch {
+  scanned_count: number;
+  changed_count: number;
+  last_id: string | null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const requestData: RankingRequest = await req.json();
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    // Scheduled runs use the service role key; people must be admins
+    const adminId = authHeader === `Bearer ${supabaseServiceKey}` ? null : await getAdminId(authHeader);
+
+    switch (requestData.action) {
+      case 'recompute':
+        return await handleRecompute(requestData);
+      case 'get_settings':
+        return await handleGetSettings();
+      case 'update_settings':
+        if (!adminId) throw new Error('Ranking settings must be changed by an admin');
+        return await handleUpdateSettings(requestData, adminId);
+      default:
+        throw new Error('Invalid action');
+    }
+  } catch (error) {
+    console.error('Ranking API error:', error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  }
+});
+
+async function getAdminId(authHeader: string): Promise<string> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser(
+    authHeader.replace('Bearer ', '')
+  );
+
+  if (authError || !user) {
+    throw new Error('Invalid authentication');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('is_admin')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile?.is_admin) {
+    throw new Error('Only admins can manage ranking');
+  }
+
+  return user.id;
+}
+
+async function handleRecompute(data: RecomputeRequest) {
+  const { batch_size = 500, max_duration_ms = DEFAULT_MAX_DURATION_MS } = data;
+
+  const batchSize = Math.min(Math.max(batch_size, 1), 5000);
+  const startedAt = Date.now();
+  const deadline = startedAt + Math.min(max_duration_ms, DEFAULT_MAX_DURATION_MS);
+
+  const results = {
+    posts: { scanned: 0, changed: 0, batches: 0 },
+    comments: { scanned: 0, changed: 0, batches: 0 },
+  };
+  let complete = true;
+
+  for (const contentType of ['post', 'comment'] as const) {
+    const totals = contentType === 'post' ? results.posts : results.comments;
+    let afterId: string | null = null;
+
+    while (true) {
+      if (Date.now() >= deadline) {
+        complete = false;
+        break;
+      }
+
+      const { data: batch, error } = await supabase
+        .rpc('recompute_hot_scores', {
+          p_content_type: contentType,
+          p_after_id: afterId,
+          p_batch_size: batchSize,
+        })
+        .single();
+
+      if (error) throw error;
+
+      const { scanned_count, changed_count, last_id } = batch as RecomputeBatch;
+      totals.scanned += scanned_count;
+      totals.changed += changed_count;
+      totals.batches++;
+
+      if (scanned_count < batchSize || !last_id) break;
+      afterId = last_id;
+    }
+
+    if (!complete) break;
+  }
+
+  const durationMs = Date.now() - startedAt;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      complete,
+      duration_ms: durationMs,
+      ...results,
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleGetSettings() {
+  const { data: settings, error } = await supabase
+    .from('ranking_settings')
+    .select('gravity, comment_weight, recompute_window_hours, updated_at, updated_by')
+    .eq('id', true)
+    .single();
+
+  if (error) throw error;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      settings,
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function handleUpdateSettings(data: UpdateSettingsRequest, userId: string) {
+  const { gravity, comment_weight, recompute_window_hours } = data;
+
+  const updateData: any = {
+    updated_at: new Date().toISOString(),
+    updated_by: userId,
+  };
+
+  if (gravity !== undefined) {
+    if (!Number.isFinite(gravity) || gravity <= 0 || gravity > 5) {
+      throw new Error('Gravity must be greater than 0 and at most 5');
+    }
+    updateData.gravity = gravity;
+  }
+
+  if (comment_weight !== undefined) {
+    if (!Number.isFinite(comment_weight) || comment_weight < 0 || comment_weight > 10) {
+      throw new Error('Comment weight must be between 0 and 10');
+    }
+    updateData.comment_weight = comment_weight;
+  }
+
+  if (recompute_window_hours !== undefined) {
+    if (!Number.isInteger(recompute_window_hours) || recompute_window_hours < 1 || recompute_window_hours > 8760) {
+      throw new Error('Recompute window must be a whole number of hours between 1 and 8760');
+    }
+    updateData.recompute_window_hours = recompute_window_hours;
+  }
+
+  const { data: settings, error } = await supabase
+    .from('ranking_settings')
+    .update(updateData)
+    .eq('id', true)
+    .select('gravity, comment_weight, recompute_window_hours, updated_at, updated_by')
+    .single();
+
+  if (error) throw error;
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      settings,
+      message: 'Ranking settings updated; scores change on the next recompute',
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders,
+      },
+    }
+  );
+}
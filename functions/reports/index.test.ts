@@ -0,0 +1,50 @@
+import { deepStrictEqual as assertEquals } from 'node:assert';
+import {
+  AUTHOR_ID,
+  COMMUNITY_ID,
+  installFakeBackend,
+  seedCommunity,
+  serveFunction,
+} from '../_shared/test-backend.ts';
+
+const PRIVATE_COMMUNITY_ID = '00000000-0000-4000-8000-00000000c002';
+const PUBLIC_POST_ID = '00000000-0000-4000-8000-0000000b0001';
+const PRIVATE_POST_ID = '00000000-0000-4000-8000-0000000b0002';
+
+const backend = installFakeBackend();
+seedCommunity(backend);
+
+backend.tables.communities.push({ id: PRIVATE_COMMUNITY_ID, name: 'staff-room', privacy_type: 'private' });
+backend.tables.memberships.push({
+  user_id: AUTHOR_ID,
+  community_id: PRIVATE_COMMUNITY_ID,
+  role: 'member',
+  status: 'approved',
+});
+
+const viewRow = { author_id: AUTHOR_ID, is_approved: true, is_deleted: false };
+backend.tables.posts_with_stats = [
+  { ...viewRow, id: PUBLIC_POST_ID, community_id: COMMUNITY_ID },
+  { ...viewRow, id: PRIVATE_POST_ID, community_id: PRIVATE_COMMUNITY_ID },
+];
+backend.tables.posts = backend.tables.posts_with_stats.map(post => ({ ...post, is_removed: false }));
+backend.rpc.check_rate_limit = () => ({ allowed: true, retry_after_seconds: 0, request_limit: null, remaining: null });
+
+const callReports = await serveFunction(() => import('./index.ts'));
+
+const report = (target_id: string) => ({ target_type: 'post', target_id, reason: 'spam' });
+
+Deno.test('members can report posts in communities they can read', async () => {
+  const { status, body } = await callReports('member', report(PUBLIC_POST_ID));
+
+  assertEquals([status, body.success], [200, true]);
+});
+
+Deno.test('posts in private communities look missing to non-members', async () => {
+  const privatePost = await callReports('member', report(PRIVATE_POST_ID));
+  const missingPost = await callReports('member', report('00000000-0000-4000-8000-0000000b0099'));
+
+  assertEquals(privatePost, missingPost);
+  assertEquals(privatePost.body.error, 'Content not found or not accessible');
+  assertEquals((backend.tables.content_reports ?? []).some(row => row.target_id === PRIVATE_POST_ID), false);
+});
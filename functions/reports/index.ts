@@ -0,0 +1,203 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { assertNotBanned } from '../_shared/bans.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { loadModerationPolicy } from '../_shared/moderation-policy.ts';
+import { canViewCommunity } from '../_shared/permissions.ts';
+import { checkRateLimit } from '../_shared/rate-limit.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const REPORT_REASONS = ['spam', 'harassment', 'hate_speech', 'misinformation', 'inappropriate', 'other'];
+
+interface ReportRequest {
+  target_type: 'post' | 'comment';
+  target_id: string;
+  reason: string;
+  note?: string;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const { target_type, target_id, reason, note }: ReportRequest = await req.json();
+
+    // Get user from JWT token
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    // Validate input
+    if (!['post', 'comment'].includes(target_type) || !target_id) {
+      throw new Error('A post or comment to report is required');
+    }
+
+    if (!REPORT_REASONS.includes(reason)) {
+      throw new Error(`Report reason must be one of: ${REPORT_REASONS.join(', ')}`);
+    }
+
+    if (note && note.length > 500) {
+      throw new Error('Report note too long (max 500 characters)');
+    }
+
+    // Check if content exists and is visible
+    const target = await getReportTarget(target_type, target_id, user.id);
+    if (!target) {
+      throw new Error('Content not found or not accessible');
+    }
+
+    if (target.author_id === user.id) {
+      throw new Error('You cannot report your own content');
+    }
+
+    await assertNotBanned(supabase, user.id, target.community_id);
+
+    // One report per user per target
+    const { data: existingReport } = await supabase
+      .from('content_reports')
+      .select('id')
+      .eq('reporter_id', user.id)
+      .eq('target_type', target_type)
+      .eq('target_id', target_id)
+      .maybeSingle();
+
+    if (existingReport) {
+      throw new Error('You have already reported this content');
+    }
+
+    // Rate-limit reporters
+    const rateLimited = await checkRateLimit(supabase, user.id, 'report', target.community_id);
+    if (rateLimited) return rateLimited;
+
+    const { error: insertError } = await supabase
+      .from('content_reports')
+      .insert({
+        reporter_id: user.id,
+        target_type,
+        target_id,
+        community_id: target.community_id,
+        reason,
+        note: note?.trim() || null,
+      });
+
+    if (insertError) throw insertError;
+
+    const flagged = await flagIfThresholdReached(target_type, target_id, target.community_id);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        flagged,
+        message: 'Report submitted. Thank you for helping keep the community safe',
+      }),
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Reports API error:', error);
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders,
+        },
+      }
+    );
+  }
+});
+
+// Content the user can see: approved, not removed or deleted, in a community they can read.
+// Anything else looks the same as content that doesn't exist.
+async function getReportTarget(targetType: string, targetId: string, userId: string) {
+  let postId = targetId;
+  let commentAuthorId: string | null = null;
+
+  if (targetType === 'comment') {
+    const { data: comment } = await supabase
+      .from('comments')
+      .select('author_id, post_id')
+      .eq('id', targetId)
+      .eq('is_approved', true)
+      .eq('is_removed', false)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!comment) return null;
+
+    postId = comment.post_id;
+    commentAuthorId = comment.author_id;
+  }
+
+  const { data: post } = await supabase
+    .from('posts_with_stats')
+    .select('author_id, community_id')
+    .eq('id', postId)
+    .eq('is_approved', true)
+    .eq('is_deleted', false)
+    .maybeSingle();
+
+  if (!post || !await canViewCommunity(supabase, userId, post.community_id)) {
+    return null;
+  }
+
+  return {
+    author_id: (targetType === 'comment' ? commentAuthorId : post.author_id) as string,
+    community_id: post.community_id as string,
+  };
+}
+
+// Sends content to the moderation queue once enough members have reported it
+async function flagIfThresholdReached(targetType: string, targetId: string, communityId: string) {
+  const policy = await loadModerationPolicy(supabase, communityId);
+
+  const { count: openReports, error } = await supabase
+    .from('content_reports')
+    .select('id', { count: 'exact', head: true })
+    .eq('target_type', targetType)
+    .eq('target_id', targetId)
+    .eq('status', 'open');
+
+  if (error) throw error;
+
+  if ((openReports ?? 0) < policy.report_flag_threshold) {
+    return false;
+  }
+
+  const { error: updateError } = await supabase
+    .from(targetType === 'post' ? 'posts' : 'comments')
+    .update({
+      moderation_status: 'flagged',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', targetId)
+    .eq('moderation_status', 'approved');
+
+  if (updateError) throw updateError;
+
+  return true;
+}
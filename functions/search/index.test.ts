@@ -0,0 +1,54 @@
+import { deepStrictEqual as assertEquals } from 'node:assert';
+import {
+  AUTHOR_ID,
+  COMMUNITY_ID,
+  installFakeBackend,
+  seedCommunity,
+  serveFunction,
+} from '../_shared/test-backend.ts';
+
+const backend = installFakeBackend();
+seedCommunity(backend);
+
+// posts_with_stats as the service role reads it: the view keeps the real author for that role
+backend.tables.posts_with_stats = [
+  {
+    id: '00000000-0000-4000-8000-0000000b0001',
+    title: 'Monsoon plans',
+    content: 'Where to stay in Munnar',
+    author_id: AUTHOR_ID,
+    author_display_name: 'Quiet-Heron-42',
+    community_id: COMMUNITY_ID,
+    community_name: 'kerala',
+    is_anonymous: true,
+    is_approved: true,
+    alias_scope: 'community',
+  },
+];
+
+const callSearch = await serveFunction(() => import('./index.ts'));
+
+async function postFor(token: string) {
+  const { status, body } = await callSearch(token, { query: 'monsoon', type: 'posts' });
+  assertEquals(status, 200);
+  assertEquals(body.results.length, 1);
+
+  return { post: body.results[0].data, serialized: JSON.stringify(body) };
+}
+
+Deno.test('search shows anonymous authors only to the author and moderators', async () => {
+  const forAuthor = await postFor('author');
+  const forModerator = await postFor('moderator');
+  const forMember = await postFor('member');
+
+  assertEquals([forAuthor.post.author_id, forAuthor.post.is_own], [AUTHOR_ID, true]);
+  assertEquals([forModerator.post.author_id, forModerator.post.is_own], [AUTHOR_ID, false]);
+  assertEquals([forMember.post.author_id, forMember.post.is_own], [null, false]);
+
+  for (const { post, serialized } of [forAuthor, forModerator, forMember]) {
+    assertEquals(post.author_display_name, 'Quiet-Heron-42');
+    assertEquals(serialized.includes('@example.com'), false);
+  }
+
+  assertEquals(forMember.serialized.includes(AUTHOR_ID), false);
+});
@@ -1,4 +1,5 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { loadViewer, serializeAuthored } from '../_shared/anonymity.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -112,7 +113,10 @@ async function performSearch(query: string, type: string, userId: string, limit:
       index === self.findIndex(p => p.id === post.id)
     );
 
-    uniquePosts.forEach(post => {
+    // The view returns real authors to the service role; strip them for anonymous posts
+    const serializedPosts = await serializeAuthored(supabase, uniquePosts, await loadViewer(supabase, userId));
+
+    serializedPosts.forEach(post => {
       results.push({
         type: 'post',
         data: post,
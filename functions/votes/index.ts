@@ -1,5 +1,8 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { assertNotBanned } from '../_shared/bans.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { assertCanVote } from '../_shared/permissions.ts';
+import { checkRateLimit } from '../_shared/rate-limit.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -47,22 +50,28 @@ Deno.serve(async (req: Request) => {
     }
 
     // Check if content exists and user can access it
+    let communityId: string;
+
     if (post_id) {
       const { data: post } = await supabase
         .from('posts_with_stats')
-        .select('id')
+        .select('id, community_id, is_deleted')
         .eq('id', post_id)
         .single();
 
       if (!post) {
         throw new Error('Post not found or not accessible');
       }
-    }
 
-    if (comment_id) {
+      if (post.is_deleted) {
+        throw new Error('This post has been deleted');
+      }
+
+      communityId = post.community_id;
+    } else {
       const { data: comment } = await supabase
         .from('comments')
-        .select('id')
+        .select('id, posts!inner(community_id)')
         .eq('id', comment_id)
         .eq('is_approved', true)
         .eq('is_removed', false)
@@ -71,8 +80,16 @@ Deno.serve(async (req: Request) => {
       if (!comment) {
         throw new Error('Comment not found or not accessible');
       }
+
+      communityId = (comment.posts as any).community_id;
     }
 
+    await assertNotBanned(supabase, user.id, communityId);
+    await assertCanVote(supabase, user.id, communityId);
+
+    const rateLimited = await checkRateLimit(supabase, user.id, 'vote', communityId);
+    if (rateLimited) return rateLimited;
+
     // Handle vote
     if (vote_type === null) {
       // Remove existing vote
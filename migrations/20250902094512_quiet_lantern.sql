@@ -0,0 +1,16 @@
+/*
+  # Record toxicity classifier output with moderation decisions
+
+  1. Modified Tables
+    - `moderation_logs`
+      - `model_version` - Version of the toxicity classifier that produced the decision
+      - `category_scores` - Per-category scores (insult, threat, spam, harassment)
+
+  2. Notes
+    - Both columns are nullable; human moderator actions leave them empty
+*/
+
+ALTER TABLE moderation_logs ADD COLUMN IF NOT EXISTS model_version text;
+ALTER TABLE moderation_logs ADD COLUMN IF NOT EXISTS category_scores jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_moderation_logs_model_version ON moderation_logs(model_version) WHERE automated = true;
@@ -0,0 +1,46 @@
+/*
+  # Per-community moderation policies
+
+  1. New Tables
+    - `community_moderation_policies` - Moderation thresholds and term lists per community
+      - `reject_threshold` / `flag_threshold` - Toxicity scores that trigger rejection or manual review
+      - `blocked_terms` / `allowed_terms` - Additions to and exceptions from the global word list
+      - `allow_links` - Whether posts and comments may contain URLs
+      - `new_member_review_posts` - Number of a member's first posts that always go to manual review
+
+  2. Security
+    - Enable RLS
+    - Community admins and owners can view their community's policy
+    - Updates go through the `communities` edge function
+*/
+
+CREATE TABLE IF NOT EXISTS community_moderation_policies (
+  community_id uuid PRIMARY KEY REFERENCES communities(id) ON DELETE CASCADE,
+  reject_threshold real NOT NULL DEFAULT 0.8 CHECK (reject_threshold BETWEEN 0 AND 1),
+  flag_threshold real NOT NULL DEFAULT 0.5 CHECK (flag_threshold BETWEEN 0 AND 1),
+  blocked_terms text[] NOT NULL DEFAULT '{}',
+  allowed_terms text[] NOT NULL DEFAULT '{}',
+  allow_links boolean NOT NULL DEFAULT true,
+  new_member_review_posts integer NOT NULL DEFAULT 0 CHECK (new_member_review_posts BETWEEN 0 AND 50),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_policy_thresholds CHECK (flag_threshold <= reject_threshold)
+);
+
+ALTER TABLE community_moderation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Community admins can view moderation policies"
+  ON community_moderation_policies FOR SELECT
+  TO authenticated
+  USING (
+    community_id IN (
+      SELECT community_id FROM memberships
+      WHERE user_id = auth.uid() AND status = 'approved' AND role = 'admin'
+    )
+    OR community_id IN (
+      SELECT id FROM communities WHERE owner_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_posts_author_community ON posts(author_id, community_id, created_at);
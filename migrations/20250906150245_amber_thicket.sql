@@ -0,0 +1,9 @@
+/*
+  # Store matched term spans with moderation decisions
+
+  1. Modified Tables
+    - `moderation_logs`
+      - `matched_terms` - Blocked words and phrases that fired, with their character spans in the content
+*/
+
+ALTER TABLE moderation_logs ADD COLUMN IF NOT EXISTS matched_terms jsonb;
@@ -0,0 +1,117 @@
+/*
+  # User reports for posts and comments
+
+  1. New Tables
+    - `content_reports` - Member reports against posts and comments
+      - One report per reporter per target
+      - `status` moves from 'open' to 'resolved' once a moderator reviews the target
+
+  2. Modified Tables
+    - `community_moderation_policies`
+      - `report_flag_threshold` - Open reports needed before content is flagged for review
+
+  3. Views
+    - `moderation_queue` now includes open report counts and reasons
+
+  4. Security
+    - Enable RLS on `content_reports`
+    - Reporters can view their own reports; moderators can view all reports
+*/
+
+CREATE TABLE IF NOT EXISTS content_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  target_type text NOT NULL CHECK (target_type IN ('post', 'comment')),
+  target_id uuid NOT NULL,
+  community_id uuid NOT NULL REFERENCES communities(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate_speech', 'misinformation', 'inappropriate', 'other')),
+  note text CHECK (char_length(note) <= 500),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  created_at timestamptz DEFAULT now(),
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES profiles(id),
+
+  UNIQUE(reporter_id, target_type, target_id)
+);
+
+ALTER TABLE community_moderation_policies
+  ADD COLUMN IF NOT EXISTS report_flag_threshold integer NOT NULL DEFAULT 3 CHECK (report_flag_threshold BETWEEN 1 AND 100);
+
+ALTER TABLE content_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reports"
+  ON content_reports FOR SELECT
+  TO authenticated
+  USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Moderators can view all reports"
+  ON content_reports FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles
+      WHERE is_moderator = true OR is_admin = true
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_content_reports_target ON content_reports(target_type, target_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_content_reports_reporter ON content_reports(reporter_id, created_at DESC);
+
+-- Rebuild moderation queue with report data
+CREATE OR REPLACE VIEW moderation_queue AS
+SELECT 
+  'post' as content_type,
+  p.id,
+  p.title as content_title,
+  p.content,
+  p.author_id,
+  prof.display_name as author_name,
+  prof.email as author_email,
+  p.community_id,
+  c.name as community_name,
+  p.toxicity_score,
+  p.moderation_status,
+  p.created_at,
+  COALESCE(r.report_count, 0) as report_count,
+  COALESCE(r.report_reasons, '{}') as report_reasons
+FROM posts p
+JOIN profiles prof ON p.author_id = prof.id
+JOIN communities c ON p.community_id = c.id
+LEFT JOIN (
+  SELECT target_id, COUNT(*) as report_count, array_agg(DISTINCT reason) as report_reasons
+  FROM content_reports
+  WHERE target_type = 'post' AND status = 'open'
+  GROUP BY target_id
+) r ON r.target_id = p.id
+WHERE p.moderation_status IN ('pending', 'flagged')
+
+UNION ALL
+
+SELECT 
+  'comment' as content_type,
+  cm.id,
+  p.title as content_title,
+  cm.content,
+  cm.author_id,
+  prof.display_name as author_name,
+  prof.email as author_email,
+  p.community_id,
+  c.name as community_name,
+  cm.toxicity_score,
+  cm.moderation_status,
+  cm.created_at,
+  COALESCE(r.report_count, 0) as report_count,
+  COALESCE(r.report_reasons, '{}') as report_reasons
+FROM comments cm
+JOIN posts p ON cm.post_id = p.id
+JOIN profiles prof ON cm.author_id = prof.id
+JOIN communities c ON p.community_id = c.id
+LEFT JOIN (
+  SELECT target_id, COUNT(*) as report_count, array_agg(DISTINCT reason) as report_reasons
+  FROM content_reports
+  WHERE target_type = 'comment' AND status = 'open'
+  GROUP BY target_id
+) r ON r.target_id = cm.id
+WHERE cm.moderation_status IN ('pending', 'flagged')
+
+ORDER BY created_at ASC;
@@ -0,0 +1,44 @@
+/*
+  # User bans and suspensions
+
+  1. New Tables
+    - `user_bans` - Site-wide (`community_id` is null) or per-community bans
+      - `expires_at` - End of a time-limited suspension; null for a permanent ban
+      - `revoked_at` / `revoked_by` - Set when a moderator lifts the ban early
+
+  2. Security
+    - Enable RLS
+    - Users can view their own bans; moderators can view all bans
+    - Bans are issued and revoked through the `moderation` edge function
+*/
+
+CREATE TABLE IF NOT EXISTS user_bans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  community_id uuid REFERENCES communities(id) ON DELETE CASCADE,
+  reason text NOT NULL,
+  expires_at timestamptz,
+  issued_by uuid NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  created_at timestamptz DEFAULT now(),
+  revoked_at timestamptz,
+  revoked_by uuid REFERENCES profiles(id)
+);
+
+ALTER TABLE user_bans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bans"
+  ON user_bans FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Moderators can view all bans"
+  ON user_bans FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles
+      WHERE is_moderator = true OR is_admin = true
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_user_bans_active ON user_bans(user_id, community_id) WHERE revoked_at IS NULL;
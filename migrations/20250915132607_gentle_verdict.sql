@@ -0,0 +1,92 @@
+/*
+  # Appeals for rejected posts and comments
+
+  1. New Tables
+    - `moderation_appeals` - One appeal per rejected post or comment, filed by its author
+      - `status` - 'pending' until a moderator upholds or overturns the rejection
+
+  2. Modified Tables
+    - `moderation_logs`
+      - `action` now also allows 'appeal', 'uphold' and 'overturn'
+
+  3. Views
+    - `appeals_queue` - Pending appeals with the original content and rejection reason
+
+  4. Security
+    - Enable RLS
+    - Authors can view their own appeals; moderators can view all appeals
+    - Appeals are filed and decided through the `appeals` edge function
+*/
+
+CREATE TABLE IF NOT EXISTS moderation_appeals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  target_type text NOT NULL CHECK (target_type IN ('post', 'comment')),
+  target_id uuid NOT NULL,
+  author_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  community_id uuid NOT NULL REFERENCES communities(id) ON DELETE CASCADE,
+  justification text NOT NULL CHECK (char_length(justification) BETWEEN 10 AND 1000),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'upheld', 'overturned')),
+  decided_by uuid REFERENCES profiles(id),
+  decided_at timestamptz,
+  decision_reason text,
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE(target_type, target_id)
+);
+
+ALTER TABLE moderation_logs DROP CONSTRAINT IF EXISTS moderation_logs_action_check;
+ALTER TABLE moderation_logs ADD CONSTRAINT moderation_logs_action_check
+  CHECK (action IN ('approve', 'reject', 'remove', 'flag', 'ban', 'unban', 'appeal', 'uphold', 'overturn'));
+
+ALTER TABLE moderation_appeals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authors can view their own appeals"
+  ON moderation_appeals FOR SELECT
+  TO authenticated
+  USING (auth.uid() = author_id);
+
+CREATE POLICY "Moderators can view all appeals"
+  ON moderation_appeals FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles
+      WHERE is_moderator = true OR is_admin = true
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_moderation_appeals_pending ON moderation_appeals(community_id, created_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_moderation_logs_target ON moderation_logs(target_type, target_id, created_at DESC);
+
+-- View for pending appeals with the content and the decision being appealed
+CREATE OR REPLACE VIEW appeals_queue AS
+SELECT 
+  a.id,
+  a.target_type,
+  a.target_id,
+  a.author_id,
+  prof.display_name as author_name,
+  a.community_id,
+  c.name as community_name,
+  COALESCE(p.title, cp.title) as content_title,
+  COALESCE(p.content, cm.content) as content,
+  a.justification,
+  l.reason as rejection_reason,
+  l.automated as rejection_automated,
+  l.created_at as rejected_at,
+  a.created_at
+FROM moderation_appeals a
+JOIN profiles prof ON a.author_id = prof.id
+JOIN communities c ON a.community_id = c.id
+LEFT JOIN posts p ON a.target_type = 'post' AND p.id = a.target_id
+LEFT JOIN comments cm ON a.target_type = 'comment' AND cm.id = a.target_id
+LEFT JOIN posts cp ON cm.post_id = cp.id
+LEFT JOIN LATERAL (
+  SELECT reason, automated, created_at
+  FROM moderation_logs
+  WHERE target_type = a.target_type AND target_id = a.target_id AND action IN ('reject', 'remove')
+  ORDER BY created_at DESC
+  LIMIT 1
+) l ON true
+WHERE a.status = 'pending'
+ORDER BY a.created_at ASC;
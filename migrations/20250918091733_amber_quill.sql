@@ -0,0 +1,135 @@
+/*
+  # Editing posts and comments
+
+  1. New Tables
+    - `content_revisions` - Every prior version of an edited post or comment
+
+  2. Modified Tables
+    - `posts` / `comments`
+      - `edited_at` - When the author last edited the content
+
+  3. Views and Functions
+    - `posts_with_stats` and `get_community_posts` expose `edited_at`
+
+  4. Security
+    - Enable RLS on `content_revisions`
+    - Moderators can view revisions; edits go through the `posts` and `comments` edge functions
+*/
+
+CREATE TABLE IF NOT EXISTS content_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  target_type text NOT NULL CHECK (target_type IN ('post', 'comment')),
+  target_id uuid NOT NULL,
+  title text,
+  content text NOT NULL,
+  edited_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+
+ALTER TABLE content_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view content revisions"
+  ON content_revisions FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles
+      WHERE is_moderator = true OR is_admin = true
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_content_revisions_target ON content_revisions(target_type, target_id, created_at);
+
+CREATE OR REPLACE VIEW posts_with_stats AS
+SELECT 
+  p.id,
+  p.title,
+  p.content,
+  p.author_id,
+  p.community_id,
+  c.name as community_name,
+  CASE 
+    WHEN p.is_anonymous THEN 
+      COALESCE(aa.alias_name, 'Anon-' || substring(md5(p.author_id::text || p.community_id::text) from 1 for 6))
+    ELSE 
+      prof.display_name
+  END as author_display_name,
+  p.is_anonymous,
+  p.is_approved,
+  p.is_removed,
+  p.moderation_status,
+  p.toxicity_score,
+  p.vote_score,
+  p.comment_count,
+  p.hot_score,
+  p.created_at,
+  p.updated_at,
+  p.edited_at
+FROM posts p
+JOIN communities c ON p.community_id = c.id
+JOIN profiles prof ON p.author_id = prof.id
+LEFT JOIN anon_aliases aa ON p.author_id = aa.user_id AND p.community_id = aa.community_id AND p.is_anonymous = true
+WHERE NOT p.is_removed;
+
+DROP FUNCTION IF EXISTS get_community_posts(uuid, text, integer);
+
+CREATE OR REPLACE FUNCTION get_community_posts(
+  p_community_id uuid,
+  p_sort_by text DEFAULT 'hot',
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  content text,
+  author_display_name text,
+  community_name text,
+  created_at timestamptz,
+  vote_score integer,
+  comment_count integer,
+  is_anonymous boolean,
+  user_vote text,
+  edited_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    p.id,
+    p.title,
+    p.content,
+    p.author_display_name,
+    p.community_name,
+    p.created_at,
+    p.vote_score,
+    p.comment_count,
+    p.is_anonymous,
+    get_user_vote(p.id, 'post') as user_vote,
+    p.edited_at
+  FROM posts_with_stats p
+  WHERE 
+    p.community_id = p_community_id
+    AND p.is_approved = true
+    AND NOT p.is_removed
+  ORDER BY 
+    CASE 
+      WHEN p_sort_by = 'new' THEN p.created_at
+      ELSE NULL
+    END DESC,
+    CASE 
+      WHEN p_sort_by = 'top' THEN p.vote_score
+      ELSE NULL
+    END DESC,
+    CASE 
+      WHEN p_sort_by = 'hot' THEN p.hot_score
+      ELSE NULL
+    END DESC,
+    p.created_at DESC
+  LIMIT p_limit;
+END;
+$$;
@@ -0,0 +1,121 @@
+/*
+  # Soft deletion of posts and comments
+
+  1. Modified Tables
+    - `posts` / `comments`
+      - `deleted_at` - When the author or a moderator deleted the content
+      - `deleted_by` - Who deleted it
+      - `deletion_type` - 'author' or 'moderator', used to pick the tombstone text
+
+  2. Views
+    - `posts_with_stats` renders deleted posts as tombstones without their text or author
+
+  3. Functions
+    - `update_post_comment_count` only counts approved comments that are neither removed nor deleted
+
+  4. Notes
+    - Deleted rows are kept so that replies under them still show
+*/
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES profiles(id);
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS deletion_type text CHECK (deletion_type IN ('author', 'moderator'));
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES profiles(id);
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS deletion_type text CHECK (deletion_type IN ('author', 'moderator'));
+
+CREATE OR REPLACE VIEW posts_with_stats AS
+SELECT 
+  p.id,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '[removed by moderator]'
+    WHEN p.deleted_at IS NOT NULL THEN '[deleted]'
+    ELSE p.title
+  END as title,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '[removed by moderator]'
+    WHEN p.deleted_at IS NOT NULL THEN '[deleted]'
+    ELSE p.content
+  END as content,
+  CASE WHEN p.deleted_at IS NULL THEN p.author_id END as author_id,
+  p.community_id,
+  c.name as community_name,
+  CASE 
+    WHEN p.deleted_at IS NOT NULL THEN NULL
+    WHEN p.is_anonymous THEN 
+      COALESCE(aa.alias_name, 'Anon-' || substring(md5(p.author_id::text || p.community_id::text) from 1 for 6))
+    ELSE 
+      prof.display_name
+  END as author_display_name,
+  p.is_anonymous,
+  p.is_approved,
+  p.is_removed,
+  p.moderation_status,
+  p.toxicity_score,
+  p.vote_score,
+  p.comment_count,
+  p.hot_score,
+  p.created_at,
+  p.updated_at,
+  p.edited_at,
+  p.deleted_at IS NOT NULL as is_deleted,
+  p.deletion_type
+FROM posts p
+JOIN communities c ON p.community_id = c.id
+JOIN profiles prof ON p.author_id = prof.id
+LEFT JOIN anon_aliases aa ON p.author_id = aa.user_id AND p.community_id = aa.community_id AND p.is_anonymous = true
+WHERE NOT p.is_removed;
+
+-- Comments count towards a post only while they are visible with their content
+CREATE OR REPLACE FUNCTION update_post_comment_count()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  old_counted boolean;
+  new_counted boolean;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    old_counted := OLD.is_approved AND NOT OLD.is_removed AND OLD.deleted_at IS NULL;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    new_counted := NEW.is_approved AND NOT NEW.is_removed AND NEW.deleted_at IS NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF new_counted THEN
+      UPDATE posts 
+      SET comment_count = comment_count + 1 
+      WHERE id = NEW.post_id;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF new_counted AND NOT old_counted THEN
+      UPDATE posts 
+      SET comment_count = comment_count + 1 
+      WHERE id = NEW.post_id;
+    ELSIF old_counted AND NOT new_counted THEN
+      UPDATE posts 
+      SET comment_count = comment_count - 1 
+      WHERE id = NEW.post_id;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    IF old_counted THEN
+      UPDATE posts 
+      SET comment_count = comment_count - 1 
+      WHERE id = OLD.post_id;
+    END IF;
+    RETURN OLD;
+  END IF;
+END;
+$$;
+
+-- Bring existing counts in line with the new rule
+UPDATE posts p
+SET comment_count = (
+  SELECT COUNT(*) FROM comments cm
+  WHERE cm.post_id = p.id AND cm.is_approved AND NOT cm.is_removed AND cm.deleted_at IS NULL
+);
@@ -0,0 +1,115 @@
+/*
+  # Per-user rate limiting
+
+  1. New Tables
+    - `rate_limit_rules` - Request limits per action, optionally overridden per community
+      - `max_requests` / `window_seconds` - Allowed requests per fixed window
+      - `new_account_max_requests` / `new_account_days` - Stricter limit for young accounts
+    - `rate_limit_buckets` - Request counters shared by all edge function instances
+
+  2. Functions
+    - `check_rate_limit` - Atomically counts a request and reports whether it is allowed
+
+  3. Security
+    - Enable RLS on both tables; only the service role reads or writes them
+*/
+
+CREATE TABLE IF NOT EXISTS rate_limit_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  action text NOT NULL CHECK (action IN ('post', 'comment', 'vote', 'join', 'report')),
+  community_id uuid REFERENCES communities(id) ON DELETE CASCADE,
+  max_requests integer NOT NULL CHECK (max_requests > 0),
+  window_seconds integer NOT NULL CHECK (window_seconds > 0),
+  new_account_max_requests integer CHECK (new_account_max_requests > 0),
+  new_account_days integer NOT NULL DEFAULT 7 CHECK (new_account_days >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rate_limit_rules_scope
+  ON rate_limit_rules(action, COALESCE(community_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  bucket_key text PRIMARY KEY,
+  window_start timestamptz NOT NULL DEFAULT now(),
+  request_count integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE rate_limit_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Site-wide defaults
+INSERT INTO rate_limit_rules (action, max_requests, window_seconds, new_account_max_requests, new_account_days)
+VALUES
+  ('post', 5, 600, 2, 7),
+  ('comment', 20, 300, 5, 7),
+  ('vote', 60, 60, 20, 7),
+  ('join', 10, 3600, 5, 7),
+  ('report', 10, 3600, 3, 7)
+ON CONFLICT DO NOTHING;
+
+-- Counts a request against the most specific rule for the action. Community rules
+-- get their own counter; the site-wide rule counts across all communities.
+CREATE OR REPLACE FUNCTION check_rate_limit(
+  p_user_id uuid,
+  p_action text,
+  p_community_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  allowed boolean,
+  retry_after_seconds integer,
+  request_limit integer,
+  remaining integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_rule rate_limit_rules%ROWTYPE;
+  v_account_created timestamptz;
+  v_limit integer;
+  v_key text;
+  v_window interval;
+  v_bucket rate_limit_buckets%ROWTYPE;
+BEGIN
+  SELECT * INTO v_rule
+  FROM rate_limit_rules r
+  WHERE r.action = p_action
+    AND (r.community_id = p_community_id OR r.community_id IS NULL)
+  ORDER BY r.community_id NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT true, 0, NULL::integer, NULL::integer;
+    RETURN;
+  END IF;
+
+  SELECT created_at INTO v_account_created FROM profiles WHERE id = p_user_id;
+
+  v_limit := v_rule.max_requests;
+  IF v_rule.new_account_max_requests IS NOT NULL
+    AND v_account_created > now() - make_interval(days => v_rule.new_account_days) THEN
+    v_limit := LEAST(v_limit, v_rule.new_account_max_requests);
+  END IF;
+
+  v_key := p_user_id::text || ':' || p_action || ':' || COALESCE(v_rule.community_id::text, '*');
+  v_window := make_interval(secs => v_rule.window_seconds);
+
+  INSERT INTO rate_limit_buckets AS b (bucket_key, window_start, request_count)
+  VALUES (v_key, now(), 1)
+  ON CONFLICT (bucket_key) DO UPDATE
+  SET
+    window_start = CASE WHEN b.window_start <= now() - v_window THEN now() ELSE b.window_start END,
+    request_count = CASE WHEN b.window_start <= now() - v_window THEN 1 ELSE b.request_count + 1 END
+  RETURNING * INTO v_bucket;
+
+  IF v_bucket.request_count > v_limit THEN
+    RETURN QUERY SELECT
+      false,
+      GREATEST(CEIL(EXTRACT(EPOCH FROM (v_bucket.window_start + v_window - now())))::integer, 1),
+      v_limit,
+      0;
+  ELSE
+    RETURN QUERY SELECT true, 0, v_limit, v_limit - v_bucket.request_count;
+  END IF;
+END;
+$$;
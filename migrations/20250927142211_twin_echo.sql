@@ -0,0 +1,50 @@
+/*
+  # Near-duplicate and cross-post detection
+
+  1. Modified Tables
+    - `posts`
+      - `minhash` - MinHash signature of the title and content, used to find near duplicates
+    - `community_moderation_policies`
+      - `duplicate_action` - Whether near duplicates are ignored, flagged or rejected
+      - `duplicate_threshold` - Minimum estimated similarity that counts as a duplicate
+
+  2. New Tables
+    - `post_duplicate_matches` - Earlier posts a new post matched, with the similarity score
+      - `scope` - 'author' for the author's own recent posts, 'community' for others in the community
+
+  3. Security
+    - Enable RLS on `post_duplicate_matches`; moderators can view matches
+*/
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS minhash integer[];
+
+ALTER TABLE community_moderation_policies
+  ADD COLUMN IF NOT EXISTS duplicate_action text NOT NULL DEFAULT 'flag' CHECK (duplicate_action IN ('off', 'flag', 'reject'));
+ALTER TABLE community_moderation_policies
+  ADD COLUMN IF NOT EXISTS duplicate_threshold real NOT NULL DEFAULT 0.7 CHECK (duplicate_threshold BETWEEN 0 AND 1);
+
+CREATE TABLE IF NOT EXISTS post_duplicate_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  matched_post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  similarity real NOT NULL CHECK (similarity BETWEEN 0 AND 1),
+  scope text NOT NULL CHECK (scope IN ('author', 'community')),
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE(post_id, matched_post_id)
+);
+
+ALTER TABLE post_duplicate_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view duplicate matches"
+  ON post_duplicate_matches FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles
+      WHERE is_moderator = true OR is_admin = true
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_post_duplicate_matches_post ON post_duplicate_matches(post_id);
+CREATE INDEX IF NOT EXISTS idx_posts_author_recent ON posts(author_id, created_at DESC);
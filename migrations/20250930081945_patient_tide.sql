@@ -0,0 +1,213 @@
+/*
+  # Durable moderation job queue
+
+  1. New Tables
+    - `moderation_jobs` - One row per pending automated moderation check
+      - `status` - 'queued', 'processing', 'completed' or 'dead' (gave up after `max_attempts`)
+      - `attempts` / `next_attempt_at` - Retry bookkeeping with exponential backoff
+      - `rerun_requested` - Set when content changes while its job is being processed
+
+  2. System Actor
+    - Creates the `system@duk.ac.in` account used as `moderator_id` for automated decisions
+
+  3. Functions
+    - `enqueue_moderation_job` - Queues a check unless one is already active
+    - `claim_moderation_jobs` - Locks due jobs for a worker, reclaiming ones stuck in processing
+    - `complete_moderation_job` / `fail_moderation_job` - Record the outcome of an attempt
+    - `enqueue_stale_pending_content` - Sweeper for content left pending without a job
+
+  4. Security
+    - Enable RLS on `moderation_jobs`; moderators can view jobs
+*/
+
+CREATE TABLE IF NOT EXISTS moderation_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_type text NOT NULL CHECK (content_type IN ('post', 'comment')),
+  content_id uuid NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'dead')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  rerun_requested boolean NOT NULL DEFAULT false,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_moderation_jobs_active
+  ON moderation_jobs(content_type, content_id) WHERE status IN ('queued', 'processing');
+CREATE INDEX IF NOT EXISTS idx_moderation_jobs_due ON moderation_jobs(next_attempt_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_posts_pending ON posts(updated_at) WHERE moderation_status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_comments_pending ON comments(updated_at) WHERE moderation_status = 'pending';
+
+ALTER TABLE moderation_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view moderation jobs"
+  ON moderation_jobs FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles
+      WHERE is_moderator = true OR is_admin = true
+    )
+  );
+
+-- System account for automated moderation decisions (profile is created by create_profile_trigger)
+INSERT INTO auth.users (instance_id, id, aud, role, email, encrypted_password, raw_user_meta_data, created_at, updated_at)
+VALUES (
+  '00000000-0000-0000-0000-000000000000',
+  '00000000-0000-0000-0000-000000000001',
+  'authenticated',
+  'authenticated',
+  'system@duk.ac.in',
+  '',
+  '{"display_name": "WhatTheDUK AutoMod"}'::jsonb,
+  now(),
+  now()
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION enqueue_moderation_job(p_content_type text, p_content_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_job_id uuid;
+BEGIN
+  INSERT INTO moderation_jobs (content_type, content_id)
+  VALUES (p_content_type, p_content_id)
+  ON CONFLICT (content_type, content_id) WHERE status IN ('queued', 'processing') DO NOTHING
+  RETURNING id INTO v_job_id;
+
+  IF v_job_id IS NULL THEN
+    -- A job is already active: run it again now, or once more after the current attempt
+    UPDATE moderation_jobs
+    SET
+      next_attempt_at = CASE WHEN status = 'queued' THEN now() ELSE next_attempt_at END,
+      rerun_requested = (status = 'processing'),
+      updated_at = now()
+    WHERE content_type = p_content_type
+      AND content_id = p_content_id
+      AND status IN ('queued', 'processing')
+    RETURNING id INTO v_job_id;
+  END IF;
+
+  RETURN v_job_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_moderation_jobs(p_limit integer DEFAULT 10, p_job_id uuid DEFAULT NULL)
+RETURNS SETOF moderation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE moderation_jobs j
+  SET
+    status = 'processing',
+    attempts = j.attempts + 1,
+    locked_at = now(),
+    updated_at = now()
+  WHERE j.id IN (
+    SELECT id FROM moderation_jobs
+    WHERE (p_job_id IS NULL OR id = p_job_id)
+      AND (
+        (status = 'queued' AND next_attempt_at <= now())
+        OR (status = 'processing' AND locked_at < now() - interval '5 minutes')
+      )
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_moderation_job(p_job_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE moderation_jobs
+  SET
+    status = CASE WHEN rerun_requested THEN 'queued' ELSE 'completed' END,
+    attempts = CASE WHEN rerun_requested THEN 0 ELSE attempts END,
+    next_attempt_at = now(),
+    rerun_requested = false,
+    locked_at = NULL,
+    last_error = NULL,
+    completed_at = CASE WHEN rerun_requested THEN NULL ELSE now() END,
+    updated_at = now()
+  WHERE id = p_job_id;
+END;
+$$;
+
+-- Backs off 30s, 1m, 2m, ... up to an hour; returns the job's new status
+CREATE OR REPLACE FUNCTION fail_moderation_job(p_job_id uuid, p_error text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_status text;
+BEGIN
+  UPDATE moderation_jobs
+  SET
+    status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'queued' END,
+    next_attempt_at = now() + make_interval(secs => LEAST(30 * POWER(2, GREATEST(attempts - 1, 0)), 3600)),
+    rerun_requested = false,
+    locked_at = NULL,
+    last_error = p_error,
+    updated_at = now()
+  WHERE id = p_job_id
+  RETURNING status INTO v_status;
+
+  RETURN v_status;
+END;
+$$;
+
+-- Dead-lettered content is left alone; it stays pending in moderation_queue for humans
+CREATE OR REPLACE FUNCTION enqueue_stale_pending_content(p_older_than_minutes integer DEFAULT 10)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH stale AS (
+    SELECT 'post'::text as content_type, id as content_id
+    FROM posts
+    WHERE moderation_status = 'pending'
+      AND deleted_at IS NULL
+      AND updated_at < now() - make_interval(mins => p_older_than_minutes)
+    UNION ALL
+    SELECT 'comment'::text, id
+    FROM comments
+    WHERE moderation_status = 'pending'
+      AND deleted_at IS NULL
+      AND updated_at < now() - make_interval(mins => p_older_than_minutes)
+  ),
+  inserted AS (
+    INSERT INTO moderation_jobs (content_type, content_id)
+    SELECT s.content_type, s.content_id
+    FROM stale s
+    WHERE NOT EXISTS (
+      SELECT 1 FROM moderation_jobs j
+      WHERE j.content_type = s.content_type
+        AND j.content_id = s.content_id
+        AND j.status IN ('queued', 'processing', 'dead')
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO v_count FROM inserted;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,122 @@
+/*
+  # Structured explanations for automated moderation decisions
+
+  1. Modified Tables
+    - `moderation_logs`
+      - `explanation` - Rules that fired, per-pattern toxicity contributions, matched spans,
+        thresholds applied and the resulting decision
+
+  2. Views
+    - `moderation_queue` now includes the explanation of the latest automated decision
+    - `appeals_queue` now includes the explanation of the appealed decision
+*/
+
+ALTER TABLE moderation_logs ADD COLUMN IF NOT EXISTS explanation jsonb;
+
+-- Rebuild moderation queue with the latest automated explanation
+CREATE OR REPLACE VIEW moderation_queue AS
+SELECT 
+  'post' as content_type,
+  p.id,
+  p.title as content_title,
+  p.content,
+  p.author_id,
+  prof.display_name as author_name,
+  prof.email as author_email,
+  p.community_id,
+  c.name as community_name,
+  p.toxicity_score,
+  p.moderation_status,
+  p.created_at,
+  COALESCE(r.report_count, 0) as report_count,
+  COALESCE(r.report_reasons, '{}') as report_reasons,
+  l.explanation
+FROM posts p
+JOIN profiles prof ON p.author_id = prof.id
+JOIN communities c ON p.community_id = c.id
+LEFT JOIN (
+  SELECT target_id, COUNT(*) as report_count, array_agg(DISTINCT reason) as report_reasons
+  FROM content_reports
+  WHERE target_type = 'post' AND status = 'open'
+  GROUP BY target_id
+) r ON r.target_id = p.id
+LEFT JOIN LATERAL (
+  SELECT explanation
+  FROM moderation_logs
+  WHERE target_type = 'post' AND target_id = p.id AND automated = true
+  ORDER BY created_at DESC
+  LIMIT 1
+) l ON true
+WHERE p.moderation_status IN ('pending', 'flagged')
+
+UNION ALL
+
+SELECT 
+  'comment' as content_type,
+  cm.id,
+  p.title as content_title,
+  cm.content,
+  cm.author_id,
+  prof.display_name as author_name,
+  prof.email as author_email,
+  p.community_id,
+  c.name as community_name,
+  cm.toxicity_score,
+  cm.moderation_status,
+  cm.created_at,
+  COALESCE(r.report_count, 0) as report_count,
+  COALESCE(r.report_reasons, '{}') as report_reasons,
+  l.explanation
+FROM comments cm
+JOIN posts p ON cm.post_id = p.id
+JOIN profiles prof ON cm.author_id = prof.id
+JOIN communities c ON p.community_id = c.id
+LEFT JOIN (
+  SELECT target_id, COUNT(*) as report_count, array_agg(DISTINCT reason) as report_reasons
+  FROM content_reports
+  WHERE target_type = 'comment' AND status = 'open'
+  GROUP BY target_id
+) r ON r.target_id = cm.id
+LEFT JOIN LATERAL (
+  SELECT explanation
+  FROM moderation_logs
+  WHERE target_type = 'comment' AND target_id = cm.id AND automated = true
+  ORDER BY created_at DESC
+  LIMIT 1
+) l ON true
+WHERE cm.moderation_status IN ('pending', 'flagged')
+
+ORDER BY created_at ASC;
+
+CREATE OR REPLACE VIEW appeals_queue AS
+SELECT 
+  a.id,
+  a.target_type,
+  a.target_id,
+  a.author_id,
+  prof.display_name as author_name,
+  a.community_id,
+  c.name as community_name,
+  COALESCE(p.title, cp.title) as content_title,
+  COALESCE(p.content, cm.content) as content,
+  a.justification,
+  l.reason as rejection_reason,
+  l.automated as rejection_automated,
+  l.created_at as rejected_at,
+  a.created_at,
+  l.explanation as rejection_explanation
+FROM moderation_appeals a
+JOIN profiles prof ON a.author_id = prof.id
+JOIN communities c ON a.community_id = c.id
+LEFT JOIN posts p ON a.target_type = 'post' AND p.id = a.target_id
+LEFT JOIN comments cm ON a.target_type = 'comment' AND cm.id = a.target_id
+LEFT JOIN posts cp ON cm.post_id = cp.id
+LEFT JOIN LATERAL (
+  SELECT reason, automated, created_at, explanation
+  FROM moderation_logs
+  WHERE target_type = a.target_type AND target_id = a.target_id AND action IN ('reject', 'remove')
+  ORDER BY created_at DESC
+  LIMIT 1
+) l ON true
+WHERE a.status = 'pending'
+ORDER BY a.created_at ASC;
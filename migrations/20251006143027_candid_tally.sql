@@ -0,0 +1,278 @@
+/*
+  # Moderation metrics
+
+  1. Functions
+    - `moderation_target_community` - Community a logged post or comment belongs to
+    - `moderation_content_summary` - Current moderation status of content created in a date range
+    - `moderation_decision_counts` - Automated decisions by community, action and deciding rule
+    - `moderation_review_times` - Time from an automated flag to the first human review, as percentiles
+    - `moderation_overturn_rates` - How often automated rejections are reversed on review or appeal
+    - `moderation_moderator_activity` - Human moderation actions per moderator
+
+  2. Indexes
+    - `idx_moderation_logs_created_at` for date range scans
+
+  3. Notes
+    - Ranges are half-open: `p_from` inclusive, `p_to` exclusive
+    - Reporting is served to admins through the `metrics` edge function
+*/
+
+CREATE INDEX IF NOT EXISTS idx_moderation_logs_created_at ON moderation_logs(created_at);
+
+CREATE OR REPLACE FUNCTION moderation_target_community(p_target_type text, p_target_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_community_id uuid;
+BEGIN
+  IF p_target_type = 'post' THEN
+    SELECT community_id INTO v_community_id FROM posts WHERE id = p_target_id;
+  ELSIF p_target_type = 'comment' THEN
+    SELECT p.community_id INTO v_community_id
+    FROM comments cm
+    JOIN posts p ON cm.post_id = p.id
+    WHERE cm.id = p_target_id;
+  END IF;
+
+  RETURN v_community_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION moderation_content_summary(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  community_id uuid,
+  community_name text,
+  content_type text,
+  total_count integer,
+  approved_count integer,
+  flagged_count integer,
+  rejected_count integer,
+  pending_count integer
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH content AS (
+    SELECT 'post' AS item_type, p.community_id AS item_community_id, p.moderation_status AS status
+    FROM posts p
+    WHERE p.created_at >= p_from AND p.created_at < p_to
+
+    UNION ALL
+
+    SELECT 'comment', p.community_id, cm.moderation_status
+    FROM comments cm
+    JOIN posts p ON cm.post_id = p.id
+    WHERE cm.created_at >= p_from AND cm.created_at < p_to
+  )
+  SELECT
+    c.id,
+    c.name,
+    ct.item_type,
+    COUNT(*)::integer,
+    COUNT(*) FILTER (WHERE ct.status = 'approved')::integer,
+    COUNT(*) FILTER (WHERE ct.status = 'flagged')::integer,
+    COUNT(*) FILTER (WHERE ct.status = 'rejected')::integer,
+    COUNT(*) FILTER (WHERE ct.status = 'pending')::integer
+  FROM content ct
+  JOIN communities c ON c.id = ct.item_community_id
+  GROUP BY c.id, c.name, ct.item_type
+  ORDER BY 2, 3;
+END;
+$$;
+
+-- Decisions made before explanations were stored are reported under the rule 'unknown'
+CREATE OR REPLACE FUNCTION moderation_decision_counts(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  community_id uuid,
+  community_name text,
+  decision text,
+  rule text,
+  decision_count integer
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.name,
+    l.action,
+    COALESCE(
+      l.explanation->'rules_fired'->0->>'rule',
+      CASE WHEN l.explanation IS NOT NULL THEN 'passed' ELSE 'unknown' END
+    ),
+    COUNT(*)::integer
+  FROM moderation_logs l
+  JOIN communities c ON c.id = moderation_target_community(l.target_type, l.target_id)
+  WHERE l.automated = true
+    AND l.target_type IN ('post', 'comment')
+    AND l.created_at >= p_from
+    AND l.created_at < p_to
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 2, 3, 5 DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION moderation_review_times(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  community_id uuid,
+  community_name text,
+  flagged_count integer,
+  reviewed_count integer,
+  p50_minutes numeric,
+  p90_minutes numeric,
+  p99_minutes numeric
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH flags AS (
+    SELECT
+      l.target_type AS flag_target_type,
+      l.target_id AS flag_target_id,
+      l.created_at AS flagged_at,
+      moderation_target_community(l.target_type, l.target_id) AS flag_community_id
+    FROM moderation_logs l
+    WHERE l.automated = true
+      AND l.action = 'flag'
+      AND l.created_at >= p_from
+      AND l.created_at < p_to
+  ),
+  waits AS (
+    SELECT
+      f.flag_community_id,
+      EXTRACT(EPOCH FROM (r.reviewed_at - f.flagged_at)) / 60 AS wait_minutes
+    FROM flags f
+    LEFT JOIN LATERAL (
+      SELECT h.created_at AS reviewed_at
+      FROM moderation_logs h
+      WHERE h.target_type = f.flag_target_type
+        AND h.target_id = f.flag_target_id
+        AND h.automated IS NOT TRUE
+        AND h.action IN ('approve', 'reject', 'remove')
+        AND h.created_at >= f.flagged_at
+      ORDER BY h.created_at
+      LIMIT 1
+    ) r ON true
+  )
+  SELECT
+    c.id,
+    c.name,
+    COUNT(*)::integer,
+    COUNT(w.wait_minutes)::integer,
+    ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY w.wait_minutes))::numeric, 1),
+    ROUND((percentile_cont(0.9) WITHIN GROUP (ORDER BY w.wait_minutes))::numeric, 1),
+    ROUND((percentile_cont(0.99) WITHIN GROUP (ORDER BY w.wait_minutes))::numeric, 1)
+  FROM waits w
+  JOIN communities c ON c.id = w.flag_community_id
+  GROUP BY c.id, c.name
+  ORDER BY 2;
+END;
+$$;
+
+-- A rejection counts as overturned once a human approves the content or upholds an appeal against it
+CREATE OR REPLACE FUNCTION moderation_overturn_rates(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  community_id uuid,
+  community_name text,
+  automated_rejections integer,
+  appealed_count integer,
+  overturned_on_appeal integer,
+  overturned_count integer,
+  overturn_rate numeric
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH rejections AS (
+    SELECT DISTINCT ON (l.target_type, l.target_id)
+      l.target_type AS rejected_type,
+      l.target_id AS rejected_id,
+      l.created_at AS rejected_at,
+      moderation_target_community(l.target_type, l.target_id) AS rejected_community_id
+    FROM moderation_logs l
+    WHERE l.automated = true
+      AND l.action = 'reject'
+      AND l.created_at >= p_from
+      AND l.created_at < p_to
+    ORDER BY l.target_type, l.target_id, l.created_at
+  ),
+  outcomes AS (
+    SELECT
+      r.rejected_community_id,
+      a.status AS appeal_status,
+      EXISTS (
+        SELECT 1
+        FROM moderation_logs h
+        WHERE h.target_type = r.rejected_type
+          AND h.target_id = r.rejected_id
+          AND h.automated IS NOT TRUE
+          AND h.action IN ('approve', 'overturn')
+          AND h.created_at > r.rejected_at
+      ) AS overturned
+    FROM rejections r
+    LEFT JOIN moderation_appeals a ON a.target_type = r.rejected_type AND a.target_id = r.rejected_id
+  )
+  SELECT
+    c.id,
+    c.name,
+    COUNT(*)::integer,
+    COUNT(o.appeal_status)::integer,
+    COUNT(*) FILTER (WHERE o.appeal_status = 'overturned')::integer,
+    COUNT(*) FILTER (WHERE o.overturned)::integer,
+    ROUND(COUNT(*) FILTER (WHERE o.overturned)::numeric / COUNT(*), 3)
+  FROM outcomes o
+  JOIN communities c ON c.id = o.rejected_community_id
+  GROUP BY c.id, c.name
+  ORDER BY 2;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION moderation_moderator_activity(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  moderator_id uuid,
+  moderator_name text,
+  total_actions integer,
+  approvals integer,
+  rejections integer,
+  removals integer,
+  bans integer,
+  unbans integer,
+  appeals_upheld integer,
+  appeals_overturned integer
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    l.moderator_id,
+    prof.display_name,
+    COUNT(*)::integer,
+    COUNT(*) FILTER (WHERE l.action = 'approve')::integer,
+    COUNT(*) FILTER (WHERE l.action = 'reject')::integer,
+    COUNT(*) FILTER (WHERE l.action = 'remove')::integer,
+    COUNT(*) FILTER (WHERE l.action = 'ban')::integer,
+    COUNT(*) FILTER (WHERE l.action = 'unban')::integer,
+    COUNT(*) FILTER (WHERE l.action = 'uphold')::integer,
+    COUNT(*) FILTER (WHERE l.action = 'overturn')::integer
+  FROM moderation_logs l
+  JOIN profiles prof ON prof.id = l.moderator_id
+  WHERE l.automated IS NOT TRUE
+    AND l.action <> 'appeal'
+    AND l.created_at >= p_from
+    AND l.created_at < p_to
+  GROUP BY l.moderator_id, prof.display_name
+  ORDER BY 3 DESC;
+END;
+$$;
@@ -0,0 +1,177 @@
+/*
+  # Home and all feeds with cursor pagination
+
+  1. Functions
+    - `calculate_rising_score` - Vote and comment velocity of a recent post
+    - `get_feed_posts` - Approved posts across the caller's communities ('home') or all public
+      communities ('all'), sorted by hot, new, rising or top (day/week/month/all)
+
+  2. Indexes
+    - Feed indexes on posts for each sort, limited to visible posts and tie-broken by id
+
+  3. Notes
+    - Each row carries an opaque `cursor`; passing the last row's cursor returns the next page
+    - Cursors pin the time the first page was read, so time windows, rising scores and
+      newly created posts do not shift later pages
+*/
+
+CREATE INDEX IF NOT EXISTS idx_posts_feed_hot ON posts(hot_score DESC, id DESC)
+  WHERE is_approved = true AND NOT is_removed AND deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_posts_feed_new ON posts(created_at DESC, id DESC)
+  WHERE is_approved = true AND NOT is_removed AND deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_posts_feed_top ON posts(vote_score DESC, id DESC)
+  WHERE is_approved = true AND NOT is_removed AND deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_posts_community_feed_new ON posts(community_id, created_at DESC, id DESC)
+  WHERE is_approved = true AND NOT is_removed AND deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION calculate_rising_score(
+  vote_score integer,
+  comment_count integer,
+  created_at timestamptz,
+  as_of timestamptz
+)
+RETURNS double precision
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  age_in_hours double precision;
+BEGIN
+  age_in_hours := EXTRACT(EPOCH FROM (as_of - created_at)) / 3600.0;
+
+  -- Very new posts would otherwise rank on a single vote
+  IF age_in_hours < 0.5 THEN
+    age_in_hours := 0.5;
+  END IF;
+
+  RETURN (COALESCE(vote_score, 0) + COALESCE(comment_count, 0) * 0.5) / age_in_hours;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_feed_posts(
+  p_feed text DEFAULT 'home',
+  p_sort_by text DEFAULT 'hot',
+  p_top_window text DEFAULT 'day',
+  p_cursor text DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  content text,
+  author_display_name text,
+  community_id uuid,
+  community_name text,
+  created_at timestamptz,
+  vote_score integer,
+  comment_count integer,
+  is_anonymous boolean,
+  user_vote text,
+  edited_at timestamptz,
+  cursor text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_as_of timestamptz := now();
+  v_cursor_parts text[];
+  v_cursor_value text;
+  v_cursor_id uuid;
+  v_since timestamptz;
+  v_communities uuid[];
+  v_sort_expr text;
+  v_sort_type text;
+BEGIN
+  IF p_feed NOT IN ('home', 'all') THEN
+    RAISE EXCEPTION 'Invalid feed: %', p_feed;
+  END IF;
+
+  IF p_sort_by NOT IN ('hot', 'new', 'rising', 'top') THEN
+    RAISE EXCEPTION 'Invalid sort: %', p_sort_by;
+  END IF;
+
+  IF p_top_window NOT IN ('day', 'week', 'month', 'all') THEN
+    RAISE EXCEPTION 'Invalid time window: %', p_top_window;
+  END IF;
+
+  IF p_feed = 'home' THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'Sign in to see your home feed';
+    END IF;
+
+    SELECT array_agg(m.community_id) INTO v_communities
+    FROM memberships m
+    JOIN communities c ON c.id = m.community_id
+    WHERE m.user_id = auth.uid() AND m.status = 'approved' AND c.is_active = true;
+  ELSE
+    SELECT array_agg(c.id) INTO v_communities
+    FROM communities c
+    WHERE c.privacy_type = 'public' AND c.is_active = true;
+  END IF;
+
+  IF p_cursor IS NOT NULL THEN
+    BEGIN
+      v_cursor_parts := string_to_array(convert_from(decode(p_cursor, 'base64'), 'UTF8'), '|');
+      v_as_of := v_cursor_parts[1]::timestamptz;
+      v_cursor_value := v_cursor_parts[2];
+      v_cursor_id := v_cursor_parts[3]::uuid;
+    EXCEPTION WHEN others THEN
+      RAISE EXCEPTION 'Invalid cursor';
+    END;
+  END IF;
+
+  v_since := CASE
+    WHEN p_sort_by = 'rising' THEN v_as_of - interval '1 day'
+    WHEN p_sort_by = 'top' AND p_top_window = 'day' THEN v_as_of - interval '1 day'
+    WHEN p_sort_by = 'top' AND p_top_window = 'week' THEN v_as_of - interval '7 days'
+    WHEN p_sort_by = 'top' AND p_top_window = 'month' THEN v_as_of - interval '1 month'
+    ELSE NULL
+  END;
+
+  -- Sort on plain columns where possible so the feed indexes apply
+  v_sort_expr := CASE p_sort_by
+    WHEN 'new' THEN 'p.created_at'
+    WHEN 'top' THEN 'p.vote_score'
+    WHEN 'rising' THEN 'calculate_rising_score(p.vote_score, p.comment_count, p.created_at, $1)'
+    ELSE 'p.hot_score'
+  END;
+
+  v_sort_type := CASE p_sort_by
+    WHEN 'new' THEN 'timestamptz'
+    WHEN 'top' THEN 'integer'
+    WHEN 'rising' THEN 'double precision'
+    ELSE 'real'
+  END;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT
+      p.id,
+      p.title,
+      p.content,
+      p.author_display_name,
+      p.community_id,
+      p.community_name,
+      p.created_at,
+      p.vote_score,
+      p.comment_count,
+      p.is_anonymous,
+      get_user_vote(p.id, ''post''),
+      p.edited_at,
+      replace(encode(convert_to($1::text || ''|'' || (%1$s)::text || ''|'' || p.id::text, ''UTF8''), ''base64''), E''\n'', '''')
+    FROM posts_with_stats p
+    WHERE
+      p.community_id = ANY($2)
+      AND p.is_approved = true
+      AND NOT p.is_deleted
+      AND p.created_at <= $1
+      AND ($3::timestamptz IS NULL OR p.created_at >= $3)
+      AND ($4::text IS NULL OR (%1$s, p.id) < ($4::%2$s, $5))
+    ORDER BY %1$s DESC, p.id DESC
+    LIMIT $6',
+    v_sort_expr,
+    v_sort_type
+  )
+  USING v_as_of, COALESCE(v_communities, '{}'), v_since, v_cursor_value, v_cursor_id, LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
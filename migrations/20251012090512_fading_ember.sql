@@ -0,0 +1,203 @@
+/*
+  # Scheduled hot-score recomputation
+
+  1. New Tables
+    - `ranking_settings` - Single row of ranking parameters
+      - `gravity` - How quickly scores decay with age
+      - `comment_weight` - Weight of each comment relative to a vote
+      - `recompute_window_hours` - Content younger than this is recomputed on every run
+
+  2. Modified Tables
+    - `posts`
+      - `hot_score_updated_at` - When the hot score was last recomputed
+    - `comments`
+      - `hot_score` / `hot_score_updated_at` - Time-decayed ranking score for comments
+
+  3. Functions
+    - `calculate_hot_score` now takes the ranking parameters; the three-argument form reads them from `ranking_settings`
+    - `recompute_hot_scores` - Recomputes one batch of posts or comments, keyed by id
+
+  4. Security
+    - Enable RLS on `ranking_settings`; authenticated users can view it, admins change it
+      through the `ranking` edge function
+
+  5. Notes
+    - The `ranking` edge function is meant to be called on a schedule with the service role key
+    - Content that leaves the recompute window gets one final recomputation so its score
+      reflects its full decay
+*/
+
+CREATE TABLE IF NOT EXISTS ranking_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  gravity real NOT NULL DEFAULT 1.8 CHECK (gravity > 0 AND gravity <= 5),
+  comment_weight real NOT NULL DEFAULT 0.5 CHECK (comment_weight >= 0 AND comment_weight <= 10),
+  recompute_window_hours integer NOT NULL DEFAULT 168 CHECK (recompute_window_hours BETWEEN 1 AND 8760),
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES profiles(id)
+);
+
+INSERT INTO ranking_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS hot_score_updated_at timestamptz;
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS hot_score real DEFAULT 0.0;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS hot_score_updated_at timestamptz;
+
+ALTER TABLE ranking_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view ranking settings"
+  ON ranking_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_comments_post_hot ON comments(post_id, hot_score DESC)
+  WHERE is_approved = true AND NOT is_removed;
+
+CREATE OR REPLACE FUNCTION calculate_hot_score(
+  vote_score integer,
+  comment_count integer,
+  created_at timestamptz,
+  gravity real,
+  comment_weight real
+)
+RETURNS real
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  age_in_hours real;
+  base_score real;
+BEGIN
+  age_in_hours := EXTRACT(EPOCH FROM (now() - created_at)) / 3600.0;
+  base_score := (COALESCE(vote_score, 0) + COALESCE(comment_count, 0) * comment_weight);
+
+  -- Prevent division by zero and negative scores
+  IF age_in_hours <= 0 THEN
+    age_in_hours := 0.1;
+  END IF;
+
+  RETURN base_score / POWER(age_in_hours + 2, gravity);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_hot_score(
+  vote_score integer,
+  comment_count integer,
+  created_at timestamptz
+)
+RETURNS real
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_settings ranking_settings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_settings FROM ranking_settings WHERE id = true;
+
+  RETURN calculate_hot_score(
+    vote_score,
+    comment_count,
+    created_at,
+    COALESCE(v_settings.gravity, 1.8),
+    COALESCE(v_settings.comment_weight, 0.5)
+  );
+END;
+$$;
+
+-- Recomputes up to p_batch_size visible posts or comments with ids after p_after_id.
+-- Callers page through by passing back `last_id` until fewer than p_batch_size rows are scanned.
+CREATE OR REPLACE FUNCTION recompute_hot_scores(
+  p_content_type text,
+  p_after_id uuid DEFAULT NULL,
+  p_batch_size integer DEFAULT 500
+)
+RETURNS TABLE (
+  scanned_count integer,
+  changed_count integer,
+  last_id uuid
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_settings ranking_settings%ROWTYPE;
+  v_window interval;
+BEGIN
+  SELECT * INTO v_settings FROM ranking_settings WHERE id = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ranking settings are missing';
+  END IF;
+
+  v_window := make_interval(hours => v_settings.recompute_window_hours);
+
+  IF p_content_type = 'post' THEN
+    RETURN QUERY
+    WITH batch AS (
+      SELECT
+        p.id AS batch_id,
+        p.hot_score AS old_score,
+        calculate_hot_score(p.vote_score, p.comment_count, p.created_at, v_settings.gravity, v_settings.comment_weight) AS new_score
+      FROM posts p
+      WHERE p.is_approved = true
+        AND NOT p.is_removed
+        AND p.deleted_at IS NULL
+        AND (p_after_id IS NULL OR p.id > p_after_id)
+        AND (
+          p.created_at >= now() - v_window
+          OR p.hot_score_updated_at IS NULL
+          OR p.hot_score_updated_at < p.created_at + v_window
+        )
+      ORDER BY p.id
+      LIMIT p_batch_size
+    ),
+    updated AS (
+      UPDATE posts p
+      SET hot_score = b.new_score, hot_score_updated_at = now()
+      FROM batch b
+      WHERE p.id = b.batch_id
+      RETURNING p.id
+    )
+    SELECT
+      COUNT(*)::integer,
+      COUNT(*) FILTER (WHERE b.old_score IS DISTINCT FROM b.new_score)::integer,
+      (array_agg(b.batch_id ORDER BY b.batch_id DESC))[1]
+    FROM batch b
+    JOIN updated u ON u.id = b.batch_id;
+  ELSIF p_content_type = 'comment' THEN
+    RETURN QUERY
+    WITH batch AS (
+      SELECT
+        c.id AS batch_id,
+        c.hot_score AS old_score,
+        calculate_hot_score(c.vote_score, 0, c.created_at, v_settings.gravity, v_settings.comment_weight) AS new_score
+      FROM comments c
+      WHERE c.is_approved = true
+        AND NOT c.is_removed
+        AND c.deleted_at IS NULL
+        AND (p_after_id IS NULL OR c.id > p_after_id)
+        AND (
+          c.created_at >= now() - v_window
+          OR c.hot_score_updated_at IS NULL
+          OR c.hot_score_updated_at < c.created_at + v_window
+        )
+      ORDER BY c.id
+      LIMIT p_batch_size
+    ),
+    updated AS (
+      UPDATE comments c
+      SET hot_score = b.new_score, hot_score_updated_at = now()
+      FROM batch b
+      WHERE c.id = b.batch_id
+      RETURNING c.id
+    )
+    SELECT
+      COUNT(*)::integer,
+      COUNT(*) FILTER (WHERE b.old_score IS DISTINCT FROM b.new_score)::integer,
+      (array_agg(b.batch_id ORDER BY b.batch_id DESC))[1]
+    FROM batch b
+    JOIN updated u ON u.id = b.batch_id;
+  ELSE
+    RAISE EXCEPTION 'Invalid content type: %', p_content_type;
+  END IF;
+END;
+$$;
@@ -0,0 +1,344 @@
+/*
+  # Link posts with previews
+
+  1. Modified Tables
+    - `posts`
+      - `post_type` now also allows 'link'
+      - `link_url` - Normalised URL shared by a link post
+    - `community_moderation_policies`
+      - `allowed_domains` - When not empty, link posts may only point at these domains and their subdomains
+      - `blocked_domains` - Domains (and their subdomains) link posts may never point at
+    - `post_duplicate_matches`
+      - `scope` now also allows 'link' for earlier posts of the same link in the community
+
+  2. New Tables
+    - `link_previews` - Cached page metadata keyed by normalised URL
+      - `final_url` - Where the URL led after redirects
+      - `status` - 'ok', or 'failed' with the reason in `error`
+
+  3. Functions
+    - `get_link_preview` - Link URL and cached metadata for a link post
+
+  4. Views
+    - `posts_with_stats`, `get_community_posts` and `get_feed_posts` include `link`
+
+  5. Security
+    - Enable RLS on `link_previews`; previews are only read through `get_link_preview`
+      and written by the posts edge function
+*/
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_post_type_check;
+ALTER TABLE posts ADD CONSTRAINT posts_post_type_check
+  CHECK (post_type IN ('text', 'poll', 'link'));
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS link_url text;
+ALTER TABLE posts ADD CONSTRAINT posts_link_url_matches_type
+  CHECK ((post_type = 'link') = (link_url IS NOT NULL));
+
+-- Finds earlier posts of the same link in a community
+CREATE INDEX IF NOT EXISTS idx_posts_community_link ON posts(community_id, link_url, created_at DESC)
+  WHERE link_url IS NOT NULL;
+
+ALTER TABLE community_moderation_policies
+  ADD COLUMN IF NOT EXISTS allowed_domains text[] NOT NULL DEFAULT '{}';
+ALTER TABLE community_moderation_policies
+  ADD COLUMN IF NOT EXISTS blocked_domains text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE post_duplicate_matches DROP CONSTRAINT IF EXISTS post_duplicate_matches_scope_check;
+ALTER TABLE post_duplicate_matches ADD CONSTRAINT post_duplicate_matches_scope_check
+  CHECK (scope IN ('author', 'community', 'link'));
+
+CREATE TABLE IF NOT EXISTS link_previews (
+  url text PRIMARY KEY,
+  final_url text,
+  canonical_url text,
+  title text,
+  description text,
+  site_name text,
+  image_url text,
+  status text NOT NULL CHECK (status IN ('ok', 'failed')),
+  error text,
+  fetched_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE link_previews ENABLE ROW LEVEL SECURITY;
+
+-- Failed or missing fetches return only the URL, so clients can still show a plain link
+CREATE OR REPLACE FUNCTION get_link_preview(p_url text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_preview link_previews%ROWTYPE;
+BEGIN
+  SELECT * INTO v_preview FROM link_previews WHERE url = p_url;
+
+  IF NOT FOUND OR v_preview.status <> 'ok' THEN
+    RETURN jsonb_build_object('url', p_url);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'url', p_url,
+    'canonical_url', v_preview.canonical_url,
+    'title', v_preview.title,
+    'description', v_preview.description,
+    'site_name', v_preview.site_name,
+    'image_url', v_preview.image_url
+  );
+END;
+$$;
+
+-- Expose link previews alongside post stats
+CREATE OR REPLACE VIEW posts_with_stats AS
+SELECT 
+  p.id,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '[removed by moderator]'
+    WHEN p.deleted_at IS NOT NULL THEN '[deleted]'
+    ELSE p.title
+  END as title,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '[removed by moderator]'
+    WHEN p.deleted_at IS NOT NULL THEN '[deleted]'
+    ELSE p.content
+  END as content,
+  CASE WHEN p.deleted_at IS NULL THEN p.author_id END as author_id,
+  p.community_id,
+  c.name as community_name,
+  CASE 
+    WHEN p.deleted_at IS NOT NULL THEN NULL
+    WHEN p.is_anonymous THEN 
+      COALESCE(aa.alias_name, 'Anon-' || substring(md5(p.author_id::text || p.community_id::text) from 1 for 6))
+    ELSE 
+      prof.display_name
+  END as author_display_name,
+  p.is_anonymous,
+  p.is_approved,
+  p.is_removed,
+  p.moderation_status,
+  p.toxicity_score,
+  p.vote_score,
+  p.comment_count,
+  p.hot_score,
+  p.created_at,
+  p.updated_at,
+  p.edited_at,
+  p.deleted_at IS NOT NULL as is_deleted,
+  p.deletion_type,
+  p.post_type,
+  CASE WHEN p.post_type = 'poll' AND p.deleted_at IS NULL THEN get_poll_results(p.id) END as poll,
+  CASE WHEN p.deleted_at IS NULL THEN get_attachment_summaries('post', p.id) END as attachments,
+  CASE WHEN p.post_type = 'link' AND p.deleted_at IS NULL THEN get_link_preview(p.link_url) END as link
+FROM posts p
+JOIN communities c ON p.community_id = c.id
+JOIN profiles prof ON p.author_id = prof.id
+LEFT JOIN anon_aliases aa ON p.author_id = aa.user_id AND p.community_id = aa.community_id AND p.is_anonymous = true
+WHERE NOT p.is_removed;
+
+DROP FUNCTION IF EXISTS get_community_posts(uuid, text, integer);
+
+CREATE OR REPLACE FUNCTION get_community_posts(
+  p_community_id uuid,
+  p_sort_by text DEFAULT 'hot',
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  content text,
+  author_display_name text,
+  community_name text,
+  created_at timestamptz,
+  vote_score integer,
+  comment_count integer,
+  is_anonymous boolean,
+  user_vote text,
+  edited_at timestamptz,
+  post_type text,
+  poll jsonb,
+  attachments jsonb,
+  link jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    p.id,
+    p.title,
+    p.content,
+    p.author_display_name,
+    p.community_name,
+    p.created_at,
+    p.vote_score,
+    p.comment_count,
+    p.is_anonymous,
+    get_user_vote(p.id, 'post') as user_vote,
+    p.edited_at,
+    p.post_type,
+    p.poll,
+    p.attachments,
+    p.link
+  FROM posts_with_stats p
+  WHERE 
+    p.community_id = p_community_id
+    AND p.is_approved = true
+    AND NOT p.is_removed
+  ORDER BY 
+    CASE 
+      WHEN p_sort_by = 'new' THEN p.created_at
+      ELSE NULL
+    END DESC,
+    CASE 
+      WHEN p_sort_by = 'top' THEN p.vote_score
+      ELSE NULL
+    END DESC,
+    CASE 
+      WHEN p_sort_by = 'hot' THEN p.hot_score
+      ELSE NULL
+    END DESC,
+    p.created_at DESC
+  LIMIT p_limit;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS get_feed_posts(text, text, text, text, integer);
+
+CREATE OR REPLACE FUNCTION get_feed_posts(
+  p_feed text DEFAULT 'home',
+  p_sort_by text DEFAULT 'hot',
+  p_top_window text DEFAULT 'day',
+  p_cursor text DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  content text,
+  author_display_name text,
+  community_id uuid,
+  community_name text,
+  created_at timestamptz,
+  vote_score integer,
+  comment_count integer,
+  is_anonymous boolean,
+  user_vote text,
+  edited_at timestamptz,
+  post_type text,
+  poll jsonb,
+  attachments jsonb,
+  link jsonb,
+  cursor text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_as_of timestamptz := now();
+  v_cursor_parts text[];
+  v_cursor_value text;
+  v_cursor_id uuid;
+  v_since timestamptz;
+  v_communities uuid[];
+  v_sort_expr text;
+  v_sort_type text;
+BEGIN
+  IF p_feed NOT IN ('home', 'all') THEN
+    RAISE EXCEPTION 'Invalid feed: %', p_feed;
+  END IF;
+
+  IF p_sort_by NOT IN ('hot', 'new', 'rising', 'top') THEN
+    RAISE EXCEPTION 'Invalid sort: %', p_sort_by;
+  END IF;
+
+  IF p_top_window NOT IN ('day', 'week', 'month', 'all') THEN
+    RAISE EXCEPTION 'Invalid time window: %', p_top_window;
+  END IF;
+
+  IF p_feed = 'home' THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'Sign in to see your home feed';
+    END IF;
+
+    SELECT array_agg(m.community_id) INTO v_communities
+    FROM memberships m
+    JOIN communities c ON c.id = m.community_id
+    WHERE m.user_id = auth.uid() AND m.status = 'approved' AND c.is_active = true;
+  ELSE
+    SELECT array_agg(c.id) INTO v_communities
+    FROM communities c
+    WHERE c.privacy_type = 'public' AND c.is_active = true;
+  END IF;
+
+  IF p_cursor IS NOT NULL THEN
+    BEGIN
+      v_cursor_parts := string_to_array(convert_from(decode(p_cursor, 'base64'), 'UTF8'), '|');
+      v_as_of := v_cursor_parts[1]::timestamptz;
+      v_cursor_value := v_cursor_parts[2];
+      v_cursor_id := v_cursor_parts[3]::uuid;
+    EXCEPTION WHEN others THEN
+      RAISE EXCEPTION 'Invalid cursor';
+    END;
+  END IF;
+
+  v_since := CASE
+    WHEN p_sort_by = 'rising' THEN v_as_of - interval '1 day'
+    WHEN p_sort_by = 'top' AND p_top_window = 'day' THEN v_as_of - interval '1 day'
+    WHEN p_sort_by = 'top' AND p_top_window = 'week' THEN v_as_of - interval '7 days'
+    WHEN p_sort_by = 'top' AND p_top_window = 'month' THEN v_as_of - interval '1 month'
+    ELSE NULL
+  END;
+
+  -- Sort on plain columns where possible so the feed indexes apply
+  v_sort_expr := CASE p_sort_by
+    WHEN 'new' THEN 'p.created_at'
+    WHEN 'top' THEN 'p.vote_score'
+    WHEN 'rising' THEN 'calculate_rising_score(p.vote_score, p.comment_count, p.created_at, $1)'
+    ELSE 'p.hot_score'
+  END;
+
+  v_sort_type := CASE p_sort_by
+    WHEN 'new' THEN 'timestamptz'
+    WHEN 'top' THEN 'integer'
+    WHEN 'rising' THEN 'double precision'
+    ELSE 'real'
+  END;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT
+      p.id,
+      p.title,
+      p.content,
+      p.author_display_name,
+      p.community_id,
+      p.community_name,
+      p.created_at,
+      p.vote_score,
+      p.comment_count,
+      p.is_anonymous,
+      get_user_vote(p.id, ''post''),
+      p.edited_at,
+      p.post_type,
+      p.poll,
+      p.attachments,
+      p.link,
+      replace(encode(convert_to($1::text || ''|'' || (%1$s)::text || ''|'' || p.id::text, ''UTF8''), ''base64''), E''\n'', '''')
+    FROM posts_with_stats p
+    WHERE
+      p.community_id = ANY($2)
+      AND p.is_approved = true
+      AND NOT p.is_deleted
+      AND p.created_at <= $1
+      AND ($3::timestamptz IS NULL OR p.created_at >= $3)
+      AND ($4::text IS NULL OR (%1$s, p.id) < ($4::%2$s, $5))
+    ORDER BY %1$s DESC, p.id DESC
+    LIMIT $6',
+    v_sort_expr,
+    v_sort_type
+  )
+  USING v_as_of, COALESCE(v_communities, '{}'), v_since, v_cursor_value, v_cursor_id, LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
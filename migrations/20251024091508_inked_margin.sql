@@ -0,0 +1,301 @@
+/*
+  # Markdown post and comment bodies
+
+  1. Modified Tables
+    - `posts`
+      - `content_html` - Sanitised HTML rendered from the Markdown in `content`
+    - `comments`
+      - `content_html` - Sanitised HTML rendered from the Markdown in `content`
+
+  2. Functions
+    - `plain_text_to_html` - Escapes plain text into a single HTML paragraph
+
+  3. Views
+    - `posts_with_stats`, `get_community_posts` and `get_feed_posts` include `content_html`
+
+  4. Notes
+    - `content` keeps the Markdown source for editing; the edge functions render
+      `content_html` whenever it is written
+    - Existing bodies were written as plain text, so they are backfilled as escaped
+      paragraphs rather than interpreted as Markdown
+*/
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS content_html text;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS content_html text;
+
+CREATE OR REPLACE FUNCTION plain_text_to_html(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '<p>' || replace(
+    replace(replace(replace(replace(replace(p_text, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;'),
+    E'\n',
+    '<br>'
+  ) || '</p>';
+$$;
+
+UPDATE posts SET content_html = plain_text_to_html(content) WHERE content_html IS NULL;
+UPDATE comments SET content_html = plain_text_to_html(content) WHERE content_html IS NULL;
+
+-- Expose rendered bodies alongside post stats
+CREATE OR REPLACE VIEW posts_with_stats AS
+SELECT 
+  p.id,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '[removed by moderator]'
+    WHEN p.deleted_at IS NOT NULL THEN '[deleted]'
+    ELSE p.title
+  END as title,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '[removed by moderator]'
+    WHEN p.deleted_at IS NOT NULL THEN '[deleted]'
+    ELSE p.content
+  END as content,
+  CASE WHEN p.deleted_at IS NULL THEN p.author_id END as author_id,
+  p.community_id,
+  c.name as community_name,
+  CASE 
+    WHEN p.deleted_at IS NOT NULL THEN NULL
+    WHEN p.is_anonymous THEN 
+      COALESCE(aa.alias_name, 'Anon-' || substring(md5(p.author_id::text || p.community_id::text) from 1 for 6))
+    ELSE 
+      prof.display_name
+  END as author_display_name,
+  p.is_anonymous,
+  p.is_approved,
+  p.is_removed,
+  p.moderation_status,
+  p.toxicity_score,
+  p.vote_score,
+  p.comment_count,
+  p.hot_score,
+  p.created_at,
+  p.updated_at,
+  p.edited_at,
+  p.deleted_at IS NOT NULL as is_deleted,
+  p.deletion_type,
+  p.post_type,
+  CASE WHEN p.post_type = 'poll' AND p.deleted_at IS NULL THEN get_poll_results(p.id) END as poll,
+  CASE WHEN p.deleted_at IS NULL THEN get_attachment_summaries('post', p.id) END as attachments,
+  CASE WHEN p.post_type = 'link' AND p.deleted_at IS NULL THEN get_link_preview(p.link_url) END as link,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '<p>[removed by moderator]</p>'
+    WHEN p.deleted_at IS NOT NULL THEN '<p>[deleted]</p>'
+    ELSE p.content_html
+  END as content_html
+FROM posts p
+JOIN communities c ON p.community_id = c.id
+JOIN profiles prof ON p.author_id = prof.id
+LEFT JOIN anon_aliases aa ON p.author_id = aa.user_id AND p.community_id = aa.community_id AND p.is_anonymous = true
+WHERE NOT p.is_removed;
+
+DROP FUNCTION IF EXISTS get_community_posts(uuid, text, integer);
+
+CREATE OR REPLACE FUNCTION get_community_posts(
+  p_community_id uuid,
+  p_sort_by text DEFAULT 'hot',
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  content text,
+  content_html text,
+  author_display_name text,
+  community_name text,
+  created_at timestamptz,
+  vote_score integer,
+  comment_count integer,
+  is_anonymous boolean,
+  user_vote text,
+  edited_at timestamptz,
+  post_type text,
+  poll jsonb,
+  attachments jsonb,
+  link jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    p.id,
+    p.title,
+    p.content,
+    p.content_html,
+    p.author_display_name,
+    p.community_name,
+    p.created_at,
+    p.vote_score,
+    p.comment_count,
+    p.is_anonymous,
+    get_user_vote(p.id, 'post') as user_vote,
+    p.edited_at,
+    p.post_type,
+    p.poll,
+    p.attachments,
+    p.link
+  FROM posts_with_stats p
+  WHERE 
+    p.community_id = p_community_id
+    AND p.is_approved = true
+    AND NOT p.is_removed
+  ORDER BY 
+    CASE 
+      WHEN p_sort_by = 'new' THEN p.created_at
+      ELSE NULL
+    END DESC,
+    CASE 
+      WHEN p_sort_by = 'top' THEN p.vote_score
+      ELSE NULL
+    END DESC,
+    CASE 
+      WHEN p_sort_by = 'hot' THEN p.hot_score
+      ELSE NULL
+    END DESC,
+    p.created_at DESC
+  LIMIT p_limit;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS get_feed_posts(text, text, text, text, integer);
+
+CREATE OR REPLACE FUNCTION get_feed_posts(
+  p_feed text DEFAULT 'home',
+  p_sort_by text DEFAULT 'hot',
+  p_top_window text DEFAULT 'day',
+  p_cursor text DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  content text,
+  content_html text,
+  author_display_name text,
+  community_id uuid,
+  community_name text,
+  created_at timestamptz,
+  vote_score integer,
+  comment_count integer,
+  is_anonymous boolean,
+  user_vote text,
+  edited_at timestamptz,
+  post_type text,
+  poll jsonb,
+  attachments jsonb,
+  link jsonb,
+  cursor text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_as_of timestamptz := now();
+  v_cursor_parts text[];
+  v_cursor_value text;
+  v_cursor_id uuid;
+  v_since timestamptz;
+  v_communities uuid[];
+  v_sort_expr text;
+  v_sort_type text;
+BEGIN
+  IF p_feed NOT IN ('home', 'all') THEN
+    RAISE EXCEPTION 'Invalid feed: %', p_feed;
+  END IF;
+
+  IF p_sort_by NOT IN ('hot', 'new', 'rising', 'top') THEN
+    RAISE EXCEPTION 'Invalid sort: %', p_sort_by;
+  END IF;
+
+  IF p_top_window NOT IN ('day', 'week', 'month', 'all') THEN
+    RAISE EXCEPTION 'Invalid time window: %', p_top_window;
+  END IF;
+
+  IF p_feed = 'home' THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'Sign in to see your home feed';
+    END IF;
+
+    SELECT array_agg(m.community_id) INTO v_communities
+    FROM memberships m
+    JOIN communities c ON c.id = m.community_id
+    WHERE m.user_id = auth.uid() AND m.status = 'approved' AND c.is_active = true;
+  ELSE
+    SELECT array_agg(c.id) INTO v_communities
+    FROM communities c
+    WHERE c.privacy_type = 'public' AND c.is_active = true;
+  END IF;
+
+  IF p_cursor IS NOT NULL THEN
+    BEGIN
+      v_cursor_parts := string_to_array(convert_from(decode(p_cursor, 'base64'), 'UTF8'), '|');
+      v_as_of := v_cursor_parts[1]::timestamptz;
+      v_cursor_value := v_cursor_parts[2];
+      v_cursor_id := v_cursor_parts[3]::uuid;
+    EXCEPTION WHEN others THEN
+      RAISE EXCEPTION 'Invalid cursor';
+    END;
+  END IF;
+
+  v_since := CASE
+    WHEN p_sort_by = 'rising' THEN v_as_of - interval '1 day'
+    WHEN p_sort_by = 'top' AND p_top_window = 'day' THEN v_as_of - interval '1 day'
+    WHEN p_sort_by = 'top' AND p_top_window = 'week' THEN v_as_of - interval '7 days'
+    WHEN p_sort_by = 'top' AND p_top_window = 'month' THEN v_as_of - interval '1 month'
+    ELSE NULL
+  END;
+
+  -- Sort on plain columns where possible so the feed indexes apply
+  v_sort_expr := CASE p_sort_by
+    WHEN 'new' THEN 'p.created_at'
+    WHEN 'top' THEN 'p.vote_score'
+    WHEN 'rising' THEN 'calculate_rising_score(p.vote_score, p.comment_count, p.created_at, $1)'
+    ELSE 'p.hot_score'
+  END;
+
+  v_sort_type := CASE p_sort_by
+    WHEN 'new' THEN 'timestamptz'
+    WHEN 'top' THEN 'integer'
+    WHEN 'rising' THEN 'double precision'
+    ELSE 'real'
+  END;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT
+      p.id,
+      p.title,
+      p.content,
+      p.content_html,
+      p.author_display_name,
+      p.community_id,
+      p.community_name,
+      p.created_at,
+      p.vote_score,
+      p.comment_count,
+      p.is_anonymous,
+      get_user_vote(p.id, ''post''),
+      p.edited_at,
+      p.post_type,
+      p.poll,
+      p.attachments,
+      p.link,
+      replace(encode(convert_to($1::text || ''|'' || (%1$s)::text || ''|'' || p.id::text, ''UTF8''), ''base64''), E''\n'', '''')
+    FROM posts_with_stats p
+    WHERE
+      p.community_id = ANY($2)
+      AND p.is_approved = true
+      AND NOT p.is_deleted
+      AND p.created_at <= $1
+      AND ($3::timestamptz IS NULL OR p.created_at >= $3)
+      AND ($4::text IS NULL OR (%1$s, p.id) < ($4::%2$s, $5))
+    ORDER BY %1$s DESC, p.id DESC
+    LIMIT $6',
+    v_sort_expr,
+    v_sort_type
+  )
+  USING v_as_of, COALESCE(v_communities, '{}'), v_since, v_cursor_value, v_cursor_id, LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
@@ -0,0 +1,185 @@
+/*
+  # Comment trees with sort modes
+
+  1. Modified Tables
+    - `comments`
+      - `upvote_count` / `downvote_count` - Vote totals kept in step with `votes`, used by
+        the best and controversial sorts
+
+  2. Functions
+    - `calculate_wilson_score` - Lower bound of the 95% confidence interval for the share of upvotes
+    - `calculate_controversy_score` - High when a comment has many votes split evenly
+    - `get_comment_tree` - One page of comments at a level of a post, with a page of replies
+      under each down to a depth limit, ordered so truncation keeps the best of every level
+
+  3. Notes
+    - Sort keys are returned so the edge function can build keyset cursors; "old" is sorted on
+      the negated timestamp so every sort is descending
+*/
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS upvote_count integer NOT NULL DEFAULT 0;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS downvote_count integer NOT NULL DEFAULT 0;
+
+UPDATE comments c
+SET
+  upvote_count = counts.up_votes,
+  downvote_count = counts.down_votes
+FROM (
+  SELECT
+    comment_id,
+    count(*) FILTER (WHERE vote_type = 'up')::integer AS up_votes,
+    count(*) FILTER (WHERE vote_type = 'down')::integer AS down_votes
+  FROM votes
+  WHERE comment_id IS NOT NULL
+  GROUP BY comment_id
+) counts
+WHERE c.id = counts.comment_id;
+
+CREATE OR REPLACE FUNCTION update_comment_vote_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_comment_id uuid := COALESCE(NEW.comment_id, OLD.comment_id);
+BEGIN
+  IF v_comment_id IS NOT NULL THEN
+    UPDATE comments
+    SET
+      upvote_count = (SELECT count(*) FROM votes WHERE comment_id = v_comment_id AND vote_type = 'up'),
+      downvote_count = (SELECT count(*) FROM votes WHERE comment_id = v_comment_id AND vote_type = 'down')
+    WHERE id = v_comment_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER update_comment_vote_counts_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_comment_vote_counts();
+
+CREATE OR REPLACE FUNCTION calculate_wilson_score(up_votes integer, down_votes integer)
+RETURNS double precision
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  z constant double precision := 1.96;
+  n double precision := up_votes + down_votes;
+  phat double precision;
+BEGIN
+  IF n <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  phat := up_votes / n;
+
+  RETURN (phat + z * z / (2 * n) - z * sqrt((phat * (1 - phat) + z * z / (4 * n)) / n)) / (1 + z * z / n);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_controversy_score(up_votes integer, down_votes integer)
+RETURNS double precision
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF up_votes <= 0 OR down_votes <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  RETURN power(
+    (up_votes + down_votes)::double precision,
+    LEAST(up_votes, down_votes)::double precision / GREATEST(up_votes, down_votes)
+  );
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_comments_post_parent ON comments(post_id, parent_id)
+  WHERE is_approved = true AND NOT is_removed;
+
+-- p_root_id NULL starts at the top-level comments. The cursor only applies to the first level.
+CREATE OR REPLACE FUNCTION get_comment_tree(
+  p_post_id uuid,
+  p_sort text DEFAULT 'best',
+  p_root_id uuid DEFAULT NULL,
+  p_after_key double precision DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_page_size integer DEFAULT 20,
+  p_reply_page_size integer DEFAULT 5,
+  p_max_depth integer DEFAULT 4,
+  p_max_comments integer DEFAULT 500
+)
+RETURNS TABLE (
+  id uuid,
+  parent_id uuid,
+  level integer,
+  sort_key double precision,
+  reply_count integer,
+  sibling_count integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_sort NOT IN ('best', 'top', 'new', 'old', 'controversial') THEN
+    RAISE EXCEPTION 'Invalid sort: %', p_sort;
+  END IF;
+
+  RETURN QUERY
+  WITH RECURSIVE visible AS (
+    SELECT
+      c.id,
+      c.parent_id,
+      CASE p_sort
+        WHEN 'best' THEN calculate_wilson_score(c.upvote_count, c.downvote_count)
+        WHEN 'top' THEN c.vote_score::double precision
+        WHEN 'new' THEN extract(epoch FROM c.created_at)::double precision
+        WHEN 'old' THEN -extract(epoch FROM c.created_at)::double precision
+        ELSE calculate_controversy_score(c.upvote_count, c.downvote_count)
+      END AS sort_key
+    FROM comments c
+    WHERE c.post_id = p_post_id AND c.is_approved = true AND NOT c.is_removed
+  ),
+  reply_counts AS (
+    SELECT v.parent_id, count(*)::integer AS replies
+    FROM visible v
+    WHERE v.parent_id IS NOT NULL
+    GROUP BY v.parent_id
+  ),
+  ranked AS (
+    SELECT
+      v.id,
+      v.parent_id,
+      v.sort_key,
+      row_number() OVER (PARTITION BY v.parent_id ORDER BY v.sort_key DESC, v.id DESC)::integer AS position,
+      count(*) OVER (PARTITION BY v.parent_id)::integer AS siblings
+    FROM visible v
+    WHERE v.parent_id IS DISTINCT FROM p_root_id
+      OR p_after_key IS NULL
+      OR (v.sort_key, v.id) < (p_after_key, p_after_id)
+  ),
+  tree AS (
+    SELECT r.id, r.parent_id, 0 AS level, r.sort_key, r.position, r.siblings
+    FROM ranked r
+    WHERE r.parent_id IS NOT DISTINCT FROM p_root_id
+      AND r.position <= p_page_size
+
+    UNION ALL
+
+    SELECT r.id, r.parent_id, t.level + 1, r.sort_key, r.position, r.siblings
+    FROM ranked r
+    JOIN tree t ON r.parent_id = t.id
+    WHERE t.level < p_max_depth
+      AND r.position <= p_reply_page_size
+  )
+  SELECT t.id, t.parent_id, t.level, t.sort_key, COALESCE(rc.replies, 0), t.siblings
+  FROM tree t
+  LEFT JOIN reply_counts rc ON rc.parent_id = t.id
+  -- Level by level, best first, so a cut-off keeps each parent's top replies
+  ORDER BY t.level, t.position, t.sort_key DESC, t.id DESC
+  LIMIT p_max_comments;
+END;
+$$;
@@ -0,0 +1,118 @@
+/*
+  # Anonymity guarantees for read paths
+
+  1. Modified Tables
+    - `anon_aliases`
+      - Aliases are unique within a community; existing clashes are renamed first
+
+  2. Functions
+    - `can_see_anonymous_author` - Whether the caller may see who wrote anonymous content in a
+      community: the service role, the author, site moderators and the community's moderators
+
+  3. Modified Views
+    - `posts_with_stats`
+      - `author_id` is null for anonymous posts unless `can_see_anonymous_author` allows it
+
+  4. Notes
+    - Edge functions read through the service role and mask authors in `_shared/anonymity.ts`
+*/
+
+UPDATE anon_aliases a
+SET alias_name = a.alias_name || '-' || substring(md5(a.id::text) from 1 for 4)
+WHERE EXISTS (
+  SELECT 1
+  FROM anon_aliases other
+  WHERE other.community_id = a.community_id
+    AND other.alias_name = a.alias_name
+    AND (other.created_at, other.id) < (a.created_at, a.id)
+);
+
+ALTER TABLE anon_aliases DROP CONSTRAINT IF EXISTS anon_aliases_community_alias_unique;
+ALTER TABLE anon_aliases ADD CONSTRAINT anon_aliases_community_alias_unique UNIQUE (community_id, alias_name);
+
+CREATE OR REPLACE FUNCTION can_see_anonymous_author(p_author_id uuid, p_community_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN true;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF auth.uid() = p_author_id THEN
+    RETURN true;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND (is_moderator = true OR is_admin = true)
+  ) OR EXISTS (
+    SELECT 1 FROM memberships
+    WHERE user_id = auth.uid()
+      AND community_id = p_community_id
+      AND status = 'approved'
+      AND role IN ('moderator', 'admin')
+  );
+END;
+$$;
+
+CREATE OR REPLACE VIEW posts_with_stats AS
+SELECT 
+  p.id,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '[removed by moderator]'
+    WHEN p.deleted_at IS NOT NULL THEN '[deleted]'
+    ELSE p.title
+  END as title,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '[removed by moderator]'
+    WHEN p.deleted_at IS NOT NULL THEN '[deleted]'
+    ELSE p.content
+  END as content,
+  CASE
+    WHEN p.deleted_at IS NOT NULL THEN NULL
+    WHEN p.is_anonymous AND NOT can_see_anonymous_author(p.author_id, p.community_id) THEN NULL
+    ELSE p.author_id
+  END as author_id,
+  p.community_id,
+  c.name as community_name,
+  CASE 
+    WHEN p.deleted_at IS NOT NULL THEN NULL
+    WHEN p.is_anonymous THEN 
+      COALESCE(aa.alias_name, 'Anon-' || substring(md5(p.author_id::text || p.community_id::text) from 1 for 6))
+    ELSE 
+      prof.display_name
+  END as author_display_name,
+  p.is_anonymous,
+  p.is_approved,
+  p.is_removed,
+  p.moderation_status,
+  p.toxicity_score,
+  p.vote_score,
+  p.comment_count,
+  p.hot_score,
+  p.created_at,
+  p.updated_at,
+  p.edited_at,
+  p.deleted_at IS NOT NULL as is_deleted,
+  p.deletion_type,
+  p.post_type,
+  CASE WHEN p.post_type = 'poll' AND p.deleted_at IS NULL THEN get_poll_results(p.id) END as poll,
+  CASE WHEN p.deleted_at IS NULL THEN get_attachment_summaries('post', p.id) END as attachments,
+  CASE WHEN p.post_type = 'link' AND p.deleted_at IS NULL THEN get_link_preview(p.link_url) END as link,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '<p>[removed by moderator]</p>'
+    WHEN p.deleted_at IS NOT NULL THEN '<p>[deleted]</p>'
+    ELSE p.content_html
+  END as content_html
+FROM posts p
+JOIN communities c ON p.community_id = c.id
+JOIN profiles prof ON p.author_id = prof.id
+LEFT JOIN anon_aliases aa ON p.author_id = aa.user_id AND p.community_id = aa.community_id AND p.is_anonymous = true
+WHERE NOT p.is_removed;
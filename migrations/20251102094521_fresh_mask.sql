@@ -0,0 +1,110 @@
+/*
+  # Per-thread anonymous identities
+
+  1. Modified Tables
+    - `communities`
+      - `anonymity_mode` - `community` keeps one alias per member in the community, `thread`
+        gives members a fresh alias in every post
+    - `posts`
+      - `alias_scope` - The community's mode when the post was created; replies in the thread
+        use the same scope so identities don't change when the setting does
+
+  2. New Tables
+    - `thread_aliases`
+      - One alias per user per post, unique within the post
+
+  3. Modified Views
+    - `posts_with_stats`
+      - `author_display_name` uses the thread alias for per-thread posts
+      - `alias_scope` appended
+
+  4. Security
+    - Enable RLS on `thread_aliases`; users can view their own aliases, writes go through edge functions
+*/
+
+ALTER TABLE communities ADD COLUMN IF NOT EXISTS anonymity_mode text NOT NULL DEFAULT 'community'
+  CHECK (anonymity_mode IN ('community', 'thread'));
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS alias_scope text NOT NULL DEFAULT 'community'
+  CHECK (alias_scope IN ('community', 'thread'));
+
+CREATE TABLE IF NOT EXISTS thread_aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  alias_name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE(user_id, post_id),
+  UNIQUE(post_id, alias_name)
+);
+
+ALTER TABLE thread_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own thread aliases"
+  ON thread_aliases FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE VIEW posts_with_stats AS
+SELECT 
+  p.id,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '[removed by moderator]'
+    WHEN p.deleted_at IS NOT NULL THEN '[deleted]'
+    ELSE p.title
+  END as title,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '[removed by moderator]'
+    WHEN p.deleted_at IS NOT NULL THEN '[deleted]'
+    ELSE p.content
+  END as content,
+  CASE
+    WHEN p.deleted_at IS NOT NULL THEN NULL
+    WHEN p.is_anonymous AND NOT can_see_anonymous_author(p.author_id, p.community_id) THEN NULL
+    ELSE p.author_id
+  END as author_id,
+  p.community_id,
+  c.name as community_name,
+  CASE 
+    WHEN p.deleted_at IS NOT NULL THEN NULL
+    WHEN p.is_anonymous THEN 
+      COALESCE(
+        ta.alias_name,
+        aa.alias_name,
+        'Anon-' || substring(md5(p.author_id::text || CASE WHEN p.alias_scope = 'thread' THEN p.id ELSE p.community_id END::text) from 1 for 6)
+      )
+    ELSE 
+      prof.display_name
+  END as author_display_name,
+  p.is_anonymous,
+  p.is_approved,
+  p.is_removed,
+  p.moderation_status,
+  p.toxicity_score,
+  p.vote_score,
+  p.comment_count,
+  p.hot_score,
+  p.created_at,
+  p.updated_at,
+  p.edited_at,
+  p.deleted_at IS NOT NULL as is_deleted,
+  p.deletion_type,
+  p.post_type,
+  CASE WHEN p.post_type = 'poll' AND p.deleted_at IS NULL THEN get_poll_results(p.id) END as poll,
+  CASE WHEN p.deleted_at IS NULL THEN get_attachment_summaries('post', p.id) END as attachments,
+  CASE WHEN p.post_type = 'link' AND p.deleted_at IS NULL THEN get_link_preview(p.link_url) END as link,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '<p>[removed by moderator]</p>'
+    WHEN p.deleted_at IS NOT NULL THEN '<p>[deleted]</p>'
+    ELSE p.content_html
+  END as content_html,
+  p.alias_scope
+FROM posts p
+JOIN communities c ON p.community_id = c.id
+JOIN profiles prof ON p.author_id = prof.id
+LEFT JOIN anon_aliases aa ON p.author_id = aa.user_id AND p.community_id = aa.community_id
+  AND p.is_anonymous = true AND p.alias_scope = 'community'
+LEFT JOIN thread_aliases ta ON p.author_id = ta.user_id AND p.id = ta.post_id
+  AND p.is_anonymous = true AND p.alias_scope = 'thread'
+WHERE NOT p.is_removed;
@@ -0,0 +1,234 @@
+/*
+  # Karma from votes, globally and per community
+
+  1. New Tables
+    - `community_karma` - Karma a user has earned in a community
+      - `post_karma` / `comment_karma` - Upvotes minus downvotes received on their posts and comments
+      - `karma` - The two added up, for leaderboards
+
+  2. Modified Tables
+    - `community_moderation_policies`
+      - `min_post_karma` / `min_comment_karma` - Karma a member needs before posting or commenting
+    - `profiles`
+      - `karma_score` is now the sum of the user's community karma
+
+  3. Functions
+    - `refresh_user_karma` - Recounts a user's karma in one community and their global karma
+    - `refresh_target_karma` - Refreshes the karma of whoever wrote a voted post or comment
+    - Triggers on `votes`, `posts` and `comments` keep karma current when votes change or
+      content is approved, removed, deleted or made anonymous
+
+  4. Security
+    - Enable RLS on `community_karma`; authenticated users can view it
+
+  5. Notes
+    - Only approved content that is neither removed nor deleted by a moderator counts
+    - Anonymous content earns no karma, so a karma change after a vote never points at its author
+    - Votes on your own content don't count
+    - Karma is recounted from `votes` rather than `vote_score`, so it doesn't depend on the order
+      vote triggers fire in
+*/
+
+CREATE TABLE IF NOT EXISTS community_karma (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  community_id uuid NOT NULL REFERENCES communities(id) ON DELETE CASCADE,
+  post_karma integer NOT NULL DEFAULT 0,
+  comment_karma integer NOT NULL DEFAULT 0,
+  karma integer GENERATED ALWAYS AS (post_karma + comment_karma) STORED,
+  updated_at timestamptz DEFAULT now(),
+
+  PRIMARY KEY (user_id, community_id)
+);
+
+ALTER TABLE community_karma ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view community karma"
+  ON community_karma FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_community_karma_leaderboard
+  ON community_karma(community_id, karma DESC);
+CREATE INDEX IF NOT EXISTS idx_comments_author ON comments(author_id);
+
+ALTER TABLE community_moderation_policies
+  ADD COLUMN IF NOT EXISTS min_post_karma integer NOT NULL DEFAULT 0 CHECK (min_post_karma >= 0);
+ALTER TABLE community_moderation_policies
+  ADD COLUMN IF NOT EXISTS min_comment_karma integer NOT NULL DEFAULT 0 CHECK (min_comment_karma >= 0);
+
+CREATE OR REPLACE FUNCTION refresh_user_karma(p_user_id uuid, p_community_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_post_karma integer;
+  v_comment_karma integer;
+BEGIN
+  IF p_user_id IS NULL OR p_community_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(CASE WHEN v.vote_type = 'up' THEN 1 ELSE -1 END), 0)::integer
+  INTO v_post_karma
+  FROM posts p
+  JOIN votes v ON v.post_id = p.id
+  WHERE p.author_id = p_user_id
+    AND p.community_id = p_community_id
+    AND p.is_approved = true
+    AND NOT p.is_removed
+    AND NOT p.is_anonymous
+    AND p.deletion_type IS DISTINCT FROM 'moderator'
+    AND v.user_id <> p_user_id;
+
+  SELECT COALESCE(sum(CASE WHEN v.vote_type = 'up' THEN 1 ELSE -1 END), 0)::integer
+  INTO v_comment_karma
+  FROM comments c
+  JOIN posts p ON p.id = c.post_id
+  JOIN votes v ON v.comment_id = c.id
+  WHERE c.author_id = p_user_id
+    AND p.community_id = p_community_id
+    AND c.is_approved = true
+    AND NOT c.is_removed
+    AND NOT c.is_anonymous
+    AND c.deletion_type IS DISTINCT FROM 'moderator'
+    AND v.user_id <> p_user_id;
+
+  INSERT INTO community_karma (user_id, community_id, post_karma, comment_karma, updated_at)
+  VALUES (p_user_id, p_community_id, v_post_karma, v_comment_karma, now())
+  ON CONFLICT (user_id, community_id) DO UPDATE
+  SET
+    post_karma = EXCLUDED.post_karma,
+    comment_karma = EXCLUDED.comment_karma,
+    updated_at = EXCLUDED.updated_at;
+
+  UPDATE profiles
+  SET karma_score = (
+    SELECT COALESCE(sum(karma), 0)
+    FROM community_karma
+    WHERE user_id = p_user_id
+  )
+  WHERE id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_target_karma(p_post_id uuid, p_comment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_author_id uuid;
+  v_community_id uuid;
+BEGIN
+  IF p_post_id IS NOT NULL THEN
+    SELECT author_id, community_id INTO v_author_id, v_community_id
+    FROM posts
+    WHERE id = p_post_id;
+  ELSIF p_comment_id IS NOT NULL THEN
+    SELECT c.author_id, p.community_id INTO v_author_id, v_community_id
+    FROM comments c
+    JOIN posts p ON p.id = c.post_id
+    WHERE c.id = p_comment_id;
+  END IF;
+
+  -- Content deleted outright has its own trigger
+  IF v_author_id IS NOT NULL THEN
+    PERFORM refresh_user_karma(v_author_id, v_community_id);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_karma_on_vote()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_target_karma(OLD.post_id, OLD.comment_id);
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR (TG_OP = 'UPDATE' AND (NEW.post_id, NEW.comment_id) IS DISTINCT FROM (OLD.post_id, OLD.comment_id)) THEN
+    PERFORM refresh_target_karma(NEW.post_id, NEW.comment_id);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER update_karma_on_vote_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_karma_on_vote();
+
+CREATE OR REPLACE FUNCTION update_karma_on_post_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_user_karma(OLD.author_id, OLD.community_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM refresh_user_karma(NEW.author_id, NEW.community_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_karma_on_post_change_trigger
+  AFTER UPDATE OF is_approved, is_removed, is_anonymous, deletion_type OR DELETE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_karma_on_post_change();
+
+CREATE OR REPLACE FUNCTION update_karma_on_comment_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_comment comments%ROWTYPE := COALESCE(NEW, OLD);
+  v_community_id uuid;
+BEGIN
+  SELECT community_id INTO v_community_id FROM posts WHERE id = v_comment.post_id;
+
+  IF v_community_id IS NOT NULL THEN
+    PERFORM refresh_user_karma(v_comment.author_id, v_community_id);
+    RETURN v_comment;
+  END IF;
+
+  -- The comment went with its post, so the community is unknown; recount wherever the author has karma
+  FOR v_community_id IN
+    SELECT community_id FROM community_karma WHERE user_id = v_comment.author_id
+  LOOP
+    PERFORM refresh_user_karma(v_comment.author_id, v_community_id);
+  END LOOP;
+
+  RETURN v_comment;
+END;
+$$;
+
+CREATE TRIGGER update_karma_on_comment_change_trigger
+  AFTER UPDATE OF is_approved, is_removed, is_anonymous, deletion_type OR DELETE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_karma_on_comment_change();
+
+-- Backfill everyone who has received a vote
+DO $$
+DECLARE
+  v_author record;
+BEGIN
+  FOR v_author IN
+    SELECT DISTINCT p.author_id, p.community_id
+    FROM votes v
+    JOIN posts p ON p.id = v.post_id
+    UNION
+    SELECT DISTINCT c.author_id, p.community_id
+    FROM votes v
+    JOIN comments c ON c.id = v.comment_id
+    JOIN posts p ON p.id = c.post_id
+  LOOP
+    PERFORM refresh_user_karma(v_author.author_id, v_author.community_id);
+  END LOOP;
+END;
+$$;
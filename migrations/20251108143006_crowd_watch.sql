@@ -0,0 +1,451 @@
+/*
+  # Vote manipulation and brigading detection
+
+  1. Modified Tables
+    - `votes`
+      - `suspicion_score` - Sum of the weights of the signals the vote tripped when it was cast
+      - `suspicion_reasons` - Those signals: `new_account`, `vote_burst`, `voter_overlap`, `author_targeting`
+      - `is_discounted` - Left out of vote scores, comment vote counts and karma
+
+  2. New Tables
+    - `vote_flags` - Suspicious votes for moderators to confirm or dismiss
+
+  3. Functions
+    - `is_vote_outsider` - Whether a voter is a new account or not an approved member of the community
+    - `assess_vote` - Scores a vote on account age, vote timing, overlap with accounts that voted
+      the same way and repeated votes on one author's content
+    - `calculate_vote_score`, `update_comment_vote_counts` and `refresh_user_karma` skip discounted votes
+    - Triggers score votes as they are cast or changed, discount earlier votes in a burst and
+      record flags
+
+  4. Security
+    - Enable RLS on `vote_flags`; site moderators can view flags
+    - Users can only change which way they voted, not how the vote was scored
+
+  5. Notes
+    - Votes scoring 0.5 or more are flagged, 0.6 or more are discounted; moderators can restore them
+*/
+
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS suspicion_score real NOT NULL DEFAULT 0;
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS suspicion_reasons text[] NOT NULL DEFAULT '{}';
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS is_discounted boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_votes_user_recent ON votes(user_id, created_at DESC);
+
+REVOKE UPDATE ON votes FROM anon, authenticated;
+GRANT UPDATE (user_id, post_id, comment_id, vote_type) ON votes TO authenticated;
+
+CREATE TABLE IF NOT EXISTS vote_flags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vote_id uuid REFERENCES votes(id) ON DELETE SET NULL,
+  voter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  community_id uuid NOT NULL REFERENCES communities(id) ON DELETE CASCADE,
+  target_type text NOT NULL CHECK (target_type IN ('post', 'comment')),
+  target_id uuid NOT NULL,
+  target_author_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  vote_type text NOT NULL CHECK (vote_type IN ('up', 'down')),
+  suspicion_score real NOT NULL,
+  reasons text[] NOT NULL,
+  discounted boolean NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'confirmed', 'dismissed')),
+  reviewed_by uuid REFERENCES profiles(id),
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE vote_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view vote flags"
+  ON vote_flags FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM profiles
+      WHERE is_moderator = true OR is_admin = true
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_vote_flags_community_open ON vote_flags(community_id, created_at DESC)
+  WHERE status = 'open';
+
+ALTER TABLE moderation_logs DROP CONSTRAINT IF EXISTS moderation_logs_target_type_check;
+ALTER TABLE moderation_logs ADD CONSTRAINT moderation_logs_target_type_check
+  CHECK (target_type IN ('post', 'comment', 'user', 'attachment', 'vote'));
+
+ALTER TABLE moderation_logs DROP CONSTRAINT IF EXISTS moderation_logs_action_check;
+ALTER TABLE moderation_logs ADD CONSTRAINT moderation_logs_action_check
+  CHECK (action IN (
+    'approve', 'reject', 'remove', 'flag', 'ban', 'unban', 'appeal', 'uphold', 'overturn',
+    'quarantine', 'release', 'discount', 'restore'
+  ));
+
+CREATE OR REPLACE FUNCTION is_vote_outsider(p_user_id uuid, p_community_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_user_id AND created_at > now() - interval '3 days'
+  ) OR NOT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE user_id = p_user_id AND community_id = p_community_id AND status = 'approved'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION assess_vote(
+  p_voter_id uuid,
+  p_post_id uuid,
+  p_comment_id uuid,
+  p_vote_type text
+)
+RETURNS TABLE (
+  suspicion_score real,
+  reasons text[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  -- Signal weights; a vote is flagged at 0.5 and discounted at 0.6
+  c_new_account_weight constant real := 0.3;
+  c_burst_weight constant real := 0.4;
+  c_overlap_weight constant real := 0.5;
+  c_targeting_weight constant real := 0.6;
+
+  c_burst_window constant interval := interval '15 minutes';
+  c_burst_votes constant integer := 5;
+  c_targeting_window constant interval := interval '24 hours';
+  c_targeting_votes constant integer := 5;
+  c_overlap_window constant interval := interval '30 days';
+  c_overlap_min_shared constant integer := 10;
+  c_overlap_ratio constant real := 0.8;
+
+  v_author_id uuid;
+  v_community_id uuid;
+  v_score real := 0;
+  v_reasons text[] := '{}';
+  v_count integer;
+  v_recent_votes integer;
+BEGIN
+  IF p_post_id IS NOT NULL THEN
+    SELECT p.author_id, p.community_id INTO v_author_id, v_community_id
+    FROM posts p
+    WHERE p.id = p_post_id;
+  ELSE
+    SELECT c.author_id, p.community_id INTO v_author_id, v_community_id
+    FROM comments c
+    JOIN posts p ON p.id = c.post_id
+    WHERE c.id = p_comment_id;
+  END IF;
+
+  IF v_community_id IS NULL THEN
+    RETURN QUERY SELECT 0::real, '{}'::text[];
+    RETURN;
+  END IF;
+
+  -- Account age
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = p_voter_id AND created_at > now() - interval '3 days') THEN
+    v_score := v_score + c_new_account_weight;
+    v_reasons := array_append(v_reasons, 'new_account');
+  END IF;
+
+  -- Timing: new accounts and outsiders piling onto the same content the same way
+  IF is_vote_outsider(p_voter_id, v_community_id) THEN
+    SELECT count(*) INTO v_count
+    FROM votes v
+    WHERE ((p_post_id IS NOT NULL AND v.post_id = p_post_id) OR (p_comment_id IS NOT NULL AND v.comment_id = p_comment_id))
+      AND v.vote_type = p_vote_type
+      AND v.user_id <> p_voter_id
+      AND v.created_at > now() - c_burst_window
+      AND is_vote_outsider(v.user_id, v_community_id);
+
+    IF v_count + 1 >= c_burst_votes THEN
+      v_score := v_score + c_burst_weight;
+      v_reasons := array_append(v_reasons, 'vote_burst');
+    END IF;
+  END IF;
+
+  -- Repeated targeting: the same vote on one author's content over and over
+  IF v_author_id IS NOT NULL AND v_author_id <> p_voter_id THEN
+    SELECT count(*) INTO v_count
+    FROM (
+      SELECT v.id
+      FROM votes v
+      JOIN posts p ON p.id = v.post_id
+      WHERE v.user_id = p_voter_id
+        AND v.vote_type = p_vote_type
+        AND v.created_at > now() - c_targeting_window
+        AND p.author_id = v_author_id
+        AND v.post_id IS DISTINCT FROM p_post_id
+      UNION ALL
+      SELECT v.id
+      FROM votes v
+      JOIN comments c ON c.id = v.comment_id
+      WHERE v.user_id = p_voter_id
+        AND v.vote_type = p_vote_type
+        AND v.created_at > now() - c_targeting_window
+        AND c.author_id = v_author_id
+        AND v.comment_id IS DISTINCT FROM p_comment_id
+    ) targeted;
+
+    IF v_count + 1 >= c_targeting_votes THEN
+      v_score := v_score + c_targeting_weight;
+      v_reasons := array_append(v_reasons, 'author_targeting');
+    END IF;
+  END IF;
+
+  -- Voter overlap: another account that voted the same way here and on nearly everything else
+  -- this voter did recently
+  SELECT count(*) INTO v_recent_votes
+  FROM (
+    SELECT 1 FROM votes v
+    WHERE v.user_id = p_voter_id AND v.created_at > now() - c_overlap_window
+    LIMIT 200
+  ) recent;
+
+  IF v_recent_votes >= c_overlap_min_shared THEN
+    WITH mine AS (
+      SELECT v.post_id, v.comment_id, v.vote_type
+      FROM votes v
+      WHERE v.user_id = p_voter_id AND v.created_at > now() - c_overlap_window
+      ORDER BY v.created_at DESC
+      LIMIT 200
+    ),
+    co_voters AS (
+      SELECT v.user_id
+      FROM votes v
+      WHERE ((p_post_id IS NOT NULL AND v.post_id = p_post_id) OR (p_comment_id IS NOT NULL AND v.comment_id = p_comment_id))
+        AND v.vote_type = p_vote_type
+        AND v.user_id <> p_voter_id
+    ),
+    shared AS (
+      SELECT o.user_id
+      FROM votes o
+      JOIN mine m ON o.post_id = m.post_id AND o.vote_type = m.vote_type
+      WHERE o.user_id IN (SELECT user_id FROM co_voters)
+      UNION ALL
+      SELECT o.user_id
+      FROM votes o
+      JOIN mine m ON o.comment_id = m.comment_id AND o.vote_type = m.vote_type
+      WHERE o.user_id IN (SELECT user_id FROM co_voters)
+    )
+    SELECT COALESCE(max(shared_votes), 0) INTO v_count
+    FROM (SELECT count(*)::integer AS shared_votes FROM shared GROUP BY shared.user_id) per_voter;
+
+    IF v_count >= c_overlap_min_shared AND v_count >= c_overlap_ratio * v_recent_votes THEN
+      v_score := v_score + c_overlap_weight;
+      v_reasons := array_append(v_reasons, 'voter_overlap');
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT v_score, v_reasons;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION score_vote_suspicion()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT a.suspicion_score, a.reasons
+  INTO NEW.suspicion_score, NEW.suspicion_reasons
+  FROM assess_vote(NEW.user_id, NEW.post_id, NEW.comment_id, NEW.vote_type) a;
+
+  NEW.is_discounted := NEW.suspicion_score >= 0.6;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER score_vote_suspicion_trigger
+  BEFORE INSERT OR UPDATE OF vote_type ON votes
+  FOR EACH ROW
+  EXECUTE FUNCTION score_vote_suspicion();
+
+CREATE OR REPLACE FUNCTION record_vote_flags()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_author_id uuid;
+  v_community_id uuid;
+BEGIN
+  IF NEW.suspicion_score < 0.5 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.post_id IS NOT NULL THEN
+    SELECT author_id, community_id INTO v_author_id, v_community_id FROM posts WHERE id = NEW.post_id;
+  ELSE
+    SELECT c.author_id, p.community_id INTO v_author_id, v_community_id
+    FROM comments c
+    JOIN posts p ON p.id = c.post_id
+    WHERE c.id = NEW.comment_id;
+  END IF;
+
+  INSERT INTO vote_flags (
+    vote_id, voter_id, community_id, target_type, target_id, target_author_id,
+    vote_type, suspicion_score, reasons, discounted
+  )
+  VALUES (
+    NEW.id, NEW.user_id, v_community_id,
+    CASE WHEN NEW.post_id IS NOT NULL THEN 'post' ELSE 'comment' END,
+    COALESCE(NEW.post_id, NEW.comment_id), v_author_id,
+    NEW.vote_type, NEW.suspicion_score, NEW.suspicion_reasons, NEW.is_discounted
+  );
+
+  -- Votes cast earlier in a discounted burst only counted because they came first
+  IF NEW.is_discounted AND 'vote_burst' = ANY(NEW.suspicion_reasons) THEN
+    WITH burst AS (
+      UPDATE votes v
+      SET
+        is_discounted = true,
+        suspicion_reasons = CASE
+          WHEN 'vote_burst' = ANY(v.suspicion_reasons) THEN v.suspicion_reasons
+          ELSE array_append(v.suspicion_reasons, 'vote_burst')
+        END
+      WHERE ((NEW.post_id IS NOT NULL AND v.post_id = NEW.post_id) OR (NEW.comment_id IS NOT NULL AND v.comment_id = NEW.comment_id))
+        AND v.id <> NEW.id
+        AND v.vote_type = NEW.vote_type
+        AND NOT v.is_discounted
+        AND v.created_at > now() - interval '15 minutes'
+        AND is_vote_outsider(v.user_id, v_community_id)
+      RETURNING v.id, v.user_id, v.vote_type, v.suspicion_score, v.suspicion_reasons
+    )
+    INSERT INTO vote_flags (
+      vote_id, voter_id, community_id, target_type, target_id, target_author_id,
+      vote_type, suspicion_score, reasons, discounted
+    )
+    SELECT
+      burst.id, burst.user_id, v_community_id,
+      CASE WHEN NEW.post_id IS NOT NULL THEN 'post' ELSE 'comment' END,
+      COALESCE(NEW.post_id, NEW.comment_id), v_author_id,
+      burst.vote_type, burst.suspicion_score, burst.suspicion_reasons, true
+    FROM burst;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_vote_flags_trigger
+  AFTER INSERT OR UPDATE OF vote_type ON votes
+  FOR EACH ROW
+  EXECUTE FUNCTION record_vote_flags();
+
+CREATE OR REPLACE FUNCTION calculate_vote_score(target_id uuid, target_type text)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  up_votes integer := 0;
+  down_votes integer := 0;
+BEGIN
+  IF target_type = 'post' THEN
+    SELECT
+      COUNT(CASE WHEN vote_type = 'up' THEN 1 END),
+      COUNT(CASE WHEN vote_type = 'down' THEN 1 END)
+    INTO up_votes, down_votes
+    FROM votes
+    WHERE post_id = target_id AND NOT is_discounted;
+  ELSIF target_type = 'comment' THEN
+    SELECT
+      COUNT(CASE WHEN vote_type = 'up' THEN 1 END),
+      COUNT(CASE WHEN vote_type = 'down' THEN 1 END)
+    INTO up_votes, down_votes
+    FROM votes
+    WHERE comment_id = target_id AND NOT is_discounted;
+  END IF;
+
+  RETURN up_votes - down_votes;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_comment_vote_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_comment_id uuid := COALESCE(NEW.comment_id, OLD.comment_id);
+BEGIN
+  IF v_comment_id IS NOT NULL THEN
+    UPDATE comments
+    SET
+      upvote_count = (
+        SELECT count(*) FROM votes
+        WHERE comment_id = v_comment_id AND vote_type = 'up' AND NOT is_discounted
+      ),
+      downvote_count = (
+        SELECT count(*) FROM votes
+        WHERE comment_id = v_comment_id AND vote_type = 'down' AND NOT is_discounted
+      )
+    WHERE id = v_comment_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_user_karma(p_user_id uuid, p_community_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_post_karma integer;
+  v_comment_karma integer;
+BEGIN
+  IF p_user_id IS NULL OR p_community_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(CASE WHEN v.vote_type = 'up' THEN 1 ELSE -1 END), 0)::integer
+  INTO v_post_karma
+  FROM posts p
+  JOIN votes v ON v.post_id = p.id
+  WHERE p.author_id = p_user_id
+    AND p.community_id = p_community_id
+    AND p.is_approved = true
+    AND NOT p.is_removed
+    AND NOT p.is_anonymous
+    AND p.deletion_type IS DISTINCT FROM 'moderator'
+    AND v.user_id <> p_user_id
+    AND NOT v.is_discounted;
+
+  SELECT COALESCE(sum(CASE WHEN v.vote_type = 'up' THEN 1 ELSE -1 END), 0)::integer
+  INTO v_comment_karma
+  FROM comments c
+  JOIN posts p ON p.id = c.post_id
+  JOIN votes v ON v.comment_id = c.id
+  WHERE c.author_id = p_user_id
+    AND p.community_id = p_community_id
+    AND c.is_approved = true
+    AND NOT c.is_removed
+    AND NOT c.is_anonymous
+    AND c.deletion_type IS DISTINCT FROM 'moderator'
+    AND v.user_id <> p_user_id
+    AND NOT v.is_discounted;
+
+  INSERT INTO community_karma (user_id, community_id, post_karma, comment_karma, updated_at)
+  VALUES (p_user_id, p_community_id, v_post_karma, v_comment_karma, now())
+  ON CONFLICT (user_id, community_id) DO UPDATE
+  SET
+    post_karma = EXCLUDED.post_karma,
+    comment_karma = EXCLUDED.comment_karma,
+    updated_at = EXCLUDED.updated_at;
+
+  UPDATE profiles
+  SET karma_score = (
+    SELECT COALESCE(sum(karma), 0)
+    FROM community_karma
+    WHERE user_id = p_user_id
+  )
+  WHERE id = p_user_id;
+END;
+$$;
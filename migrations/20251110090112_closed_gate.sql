@@ -0,0 +1,10 @@
+/*
+  # Rate limit counter is internal
+
+  1. Security
+    - `check_rate_limit` trusts the user ID it is given, so only the service role (edge functions)
+      may call it; signed-in clients could otherwise spend another user's quota
+*/
+
+REVOKE EXECUTE ON FUNCTION check_rate_limit(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_rate_limit(uuid, text, uuid) TO service_role;
@@ -0,0 +1,19 @@
+/*
+  # Moderation queue functions are internal
+
+  1. Security
+    - The moderation job functions run as their owner and act on any job or content ID, so only the
+      service role (the moderation worker and scheduled jobs) may call them
+*/
+
+REVOKE EXECUTE ON FUNCTION enqueue_moderation_job(text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_moderation_jobs(integer, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_moderation_job(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_moderation_job(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enqueue_stale_pending_content(integer) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION enqueue_moderation_job(text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_moderation_jobs(integer, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_moderation_job(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_moderation_job(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION enqueue_stale_pending_content(integer) TO service_role;
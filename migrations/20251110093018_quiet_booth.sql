@@ -0,0 +1,111 @@
+/*
+  # Poll results follow post visibility
+
+  1. Functions
+    - `can_view_post` - Whether the caller may read a post, matching the `posts` select policy;
+      authors and moderators can also see their own or their community's unapproved posts
+    - `get_poll_results` returns null for posts the caller cannot view
+
+  2. Notes
+    - `get_poll_results` runs as its owner so that it can count every ballot, which also let anyone
+      read the options and counts of polls in private communities by post ID
+*/
+
+CREATE OR REPLACE FUNCTION can_view_post(p_post_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_post posts%ROWTYPE;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN true;
+  END IF;
+
+  SELECT * INTO v_post FROM posts WHERE id = p_post_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND can_see_anonymous_author(v_post.author_id, v_post.community_id) THEN
+    RETURN true;
+  END IF;
+
+  RETURN v_post.is_approved
+    AND NOT v_post.is_removed
+    AND (
+      EXISTS (
+        SELECT 1 FROM communities
+        WHERE id = v_post.community_id AND privacy_type = 'public'
+      ) OR EXISTS (
+        SELECT 1 FROM memberships
+        WHERE user_id = auth.uid()
+          AND community_id = v_post.community_id
+          AND status = 'approved'
+      )
+    );
+END;
+$$;
+
+-- Counts are left null while results are hidden; the caller's own choices are always shown
+CREATE OR REPLACE FUNCTION get_poll_results(p_post_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_poll polls%ROWTYPE;
+  v_is_closed boolean;
+  v_results_hidden boolean;
+  v_total_ballots integer;
+  v_options jsonb;
+  v_my_choices uuid[];
+BEGIN
+  IF NOT can_view_post(p_post_id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_poll FROM polls WHERE post_id = p_post_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_is_closed := v_poll.closes_at IS NOT NULL AND v_poll.closes_at <= now();
+  v_results_hidden := v_poll.hide_results_until_close AND NOT v_is_closed;
+
+  SELECT COUNT(*)::integer INTO v_total_ballots FROM poll_ballots WHERE post_id = p_post_id;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'id', o.id,
+      'label', o.label,
+      'position', o.position,
+      'votes', CASE WHEN v_results_hidden THEN NULL ELSE (
+        SELECT COUNT(*) FROM poll_ballots b WHERE b.post_id = p_post_id AND o.id = ANY(b.option_ids)
+      ) END
+    )
+    ORDER BY o.position
+  ) INTO v_options
+  FROM poll_options o
+  WHERE o.post_id = p_post_id;
+
+  IF auth.uid() IS NOT NULL THEN
+    SELECT option_ids INTO v_my_choices FROM poll_ballots WHERE post_id = p_post_id AND user_id = auth.uid();
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allows_multiple', v_poll.allows_multiple,
+    'closes_at', v_poll.closes_at,
+    'is_closed', v_is_closed,
+    'results_hidden', v_results_hidden,
+    'total_ballots', v_total_ballots,
+    'options', COALESCE(v_options, '[]'::jsonb),
+    'my_choices', to_jsonb(v_my_choices)
+  );
+END;
+$$;
@@ -0,0 +1,56 @@
+/*
+  # Attachment summaries follow post visibility
+
+  1. Functions
+    - `get_attachment_summaries` returns null unless the caller can view the post, or the comment
+      and its post
+
+  2. Notes
+    - The function runs as its owner, so without the check anyone could read the file names of
+      attachments in private communities by post or comment ID
+*/
+
+-- Quarantined files stay listed so clients can show a placeholder, but are never served
+CREATE OR REPLACE FUNCTION get_attachment_summaries(p_target_type text, p_target_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_comment comments%ROWTYPE;
+BEGIN
+  IF p_target_type = 'comment' THEN
+    SELECT * INTO v_comment FROM comments WHERE id = p_target_id;
+
+    IF NOT FOUND OR NOT can_view_post(v_comment.post_id) THEN
+      RETURN NULL;
+    END IF;
+
+    IF (NOT v_comment.is_approved OR v_comment.is_removed)
+      AND auth.role() IS DISTINCT FROM 'service_role'
+      AND (auth.uid() IS NULL OR NOT can_see_anonymous_author(v_comment.author_id, (
+        SELECT community_id FROM posts WHERE id = v_comment.post_id
+      ))) THEN
+      RETURN NULL;
+    END IF;
+  ELSIF NOT can_view_post(p_target_id) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN (
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', a.id,
+        'file_name', a.file_name,
+        'mime_type', a.mime_type,
+        'size_bytes', a.size_bytes,
+        'is_quarantined', a.quarantined_at IS NOT NULL
+      )
+      ORDER BY a.created_at
+    )
+    FROM attachments a
+    WHERE a.target_type = p_target_type AND a.target_id = p_target_id
+  );
+END;
+$$;
@@ -0,0 +1,44 @@
+/*
+  # Rendered HTML is written by the server only
+
+  1. Functions
+    - `guard_content_html` - Replaces `content_html` written directly by a client with the escaped
+      plain text of `content`
+
+  2. Triggers
+    - Before insert or update on `posts` and `comments`
+
+  3. Notes
+    - The row policies let members insert and edit their own posts and comments through the API,
+      which also let them store arbitrary HTML that the read APIs return as sanitised
+    - The edge functions use the service role and keep storing the rendered Markdown
+*/
+
+CREATE OR REPLACE FUNCTION guard_content_html()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.content_html IS DISTINCT FROM OLD.content_html THEN
+    NEW.content_html := plain_text_to_html(NEW.content);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_post_content_html_trigger
+  BEFORE INSERT OR UPDATE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_content_html();
+
+CREATE TRIGGER guard_comment_content_html_trigger
+  BEFORE INSERT OR UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_content_html();
@@ -0,0 +1,74 @@
+/*
+  # Constant fallback name for anonymous posts
+
+  1. Modified Views
+    - `posts_with_stats`
+      - `author_display_name` falls back to 'Anonymous' when an anonymous post has no alias yet
+
+  2. Notes
+    - The old fallback hashed the author ID with the community or post ID, so anyone could
+      confirm a guessed author by computing the same hash
+*/
+
+CREATE OR REPLACE VIEW posts_with_stats AS
+SELECT 
+  p.id,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '[removed by moderator]'
+    WHEN p.deleted_at IS NOT NULL THEN '[deleted]'
+    ELSE p.title
+  END as title,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '[removed by moderator]'
+    WHEN p.deleted_at IS NOT NULL THEN '[deleted]'
+    ELSE p.content
+  END as content,
+  CASE
+    WHEN p.deleted_at IS NOT NULL THEN NULL
+    WHEN p.is_anonymous AND NOT can_see_anonymous_author(p.author_id, p.community_id) THEN NULL
+    ELSE p.author_id
+  END as author_id,
+  p.community_id,
+  c.name as community_name,
+  CASE 
+    WHEN p.deleted_at IS NOT NULL THEN NULL
+    WHEN p.is_anonymous THEN 
+      COALESCE(
+        ta.alias_name,
+        aa.alias_name,
+        'Anonymous'
+      )
+    ELSE 
+      prof.display_name
+  END as author_display_name,
+  p.is_anonymous,
+  p.is_approved,
+  p.is_removed,
+  p.moderation_status,
+  p.toxicity_score,
+  p.vote_score,
+  p.comment_count,
+  p.hot_score,
+  p.created_at,
+  p.updated_at,
+  p.edited_at,
+  p.deleted_at IS NOT NULL as is_deleted,
+  p.deletion_type,
+  p.post_type,
+  CASE WHEN p.post_type = 'poll' AND p.deleted_at IS NULL THEN get_poll_results(p.id) END as poll,
+  CASE WHEN p.deleted_at IS NULL THEN get_attachment_summaries('post', p.id) END as attachments,
+  CASE WHEN p.post_type = 'link' AND p.deleted_at IS NULL THEN get_link_preview(p.link_url) END as link,
+  CASE 
+    WHEN p.deletion_type = 'moderator' THEN '<p>[removed by moderator]</p>'
+    WHEN p.deleted_at IS NOT NULL THEN '<p>[deleted]</p>'
+    ELSE p.content_html
+  END as content_html,
+  p.alias_scope
+FROM posts p
+JOIN communities c ON p.community_id = c.id
+JOIN profiles prof ON p.author_id = prof.id
+LEFT JOIN anon_aliases aa ON p.author_id = aa.user_id AND p.community_id = aa.community_id
+  AND p.is_anonymous = true AND p.alias_scope = 'community'
+LEFT JOIN thread_aliases ta ON p.author_id = ta.user_id AND p.id = ta.post_id
+  AND p.is_anonymous = true AND p.alias_scope = 'thread'
+WHERE NOT p.is_removed;
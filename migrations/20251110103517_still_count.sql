@@ -0,0 +1,109 @@
+/*
+  # Karma refreshes stay silent for anonymous content
+
+  1. Functions
+    - `refresh_target_karma` does nothing for votes on anonymous posts and comments
+    - `refresh_user_karma` only writes `community_karma` and `profiles.karma_score` when the
+      karma actually changed
+
+  2. Notes
+    - Anonymous content earns no karma, but the refresh still rewrote the author's
+      `community_karma` row with a fresh `updated_at` after every vote, so a voter could watch
+      whose row moved and unmask the author
+*/
+
+CREATE OR REPLACE FUNCTION refresh_user_karma(p_user_id uuid, p_community_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_post_karma integer;
+  v_comment_karma integer;
+  v_karma_score integer;
+BEGIN
+  IF p_user_id IS NULL OR p_community_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(CASE WHEN v.vote_type = 'up' THEN 1 ELSE -1 END), 0)::integer
+  INTO v_post_karma
+  FROM posts p
+  JOIN votes v ON v.post_id = p.id
+  WHERE p.author_id = p_user_id
+    AND p.community_id = p_community_id
+    AND p.is_approved = true
+    AND NOT p.is_removed
+    AND NOT p.is_anonymous
+    AND p.deletion_type IS DISTINCT FROM 'moderator'
+    AND v.user_id <> p_user_id
+    AND NOT v.is_discounted;
+
+  SELECT COALESCE(sum(CASE WHEN v.vote_type = 'up' THEN 1 ELSE -1 END), 0)::integer
+  INTO v_comment_karma
+  FROM comments c
+  JOIN posts p ON p.id = c.post_id
+  JOIN votes v ON v.comment_id = c.id
+  WHERE c.author_id = p_user_id
+    AND p.community_id = p_community_id
+    AND c.is_approved = true
+    AND NOT c.is_removed
+    AND NOT c.is_anonymous
+    AND c.deletion_type IS DISTINCT FROM 'moderator'
+    AND v.user_id <> p_user_id
+    AND NOT v.is_discounted;
+
+  INSERT INTO community_karma (user_id, community_id, post_karma, comment_karma, updated_at)
+  VALUES (p_user_id, p_community_id, v_post_karma, v_comment_karma, now())
+  ON CONFLICT (user_id, community_id) DO UPDATE
+  SET
+    post_karma = EXCLUDED.post_karma,
+    comment_karma = EXCLUDED.comment_karma,
+    updated_at = EXCLUDED.updated_at
+  WHERE (community_karma.post_karma, community_karma.comment_karma)
+    IS DISTINCT FROM (EXCLUDED.post_karma, EXCLUDED.comment_karma);
+
+  SELECT COALESCE(sum(karma), 0)::integer
+  INTO v_karma_score
+  FROM community_karma
+  WHERE user_id = p_user_id;
+
+  UPDATE profiles
+  SET karma_score = v_karma_score
+  WHERE id = p_user_id
+    AND karma_score IS DISTINCT FROM v_karma_score;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_target_karma(p_post_id uuid, p_comment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_author_id uuid;
+  v_community_id uuid;
+  v_is_anonymous boolean;
+BEGIN
+  IF p_post_id IS NOT NULL THEN
+    SELECT author_id, community_id, is_anonymous INTO v_author_id, v_community_id, v_is_anonymous
+    FROM posts
+    WHERE id = p_post_id;
+  ELSIF p_comment_id IS NOT NULL THEN
+    SELECT c.author_id, p.community_id, c.is_anonymous INTO v_author_id, v_community_id, v_is_anonymous
+    FROM comments c
+    JOIN posts p ON p.id = c.post_id
+    WHERE c.id = p_comment_id;
+  END IF;
+
+  -- Anonymous content earns no karma, so a vote on it has nothing to recount
+  IF v_is_anonymous THEN
+    RETURN;
+  END IF;
+
+  -- Content deleted outright has its own trigger
+  IF v_author_id IS NOT NULL THEN
+    PERFORM refresh_user_karma(v_author_id, v_community_id);
+  END IF;
+END;
+$$;
@@ -0,0 +1,99 @@
+/*
+  # Bans also hold for writes made directly through the API
+
+  1. Functions
+    - `is_banned` - Whether a user has an active site-wide ban or a ban in the community
+
+  2. Security
+    - The insert policies on `posts`, `comments`, `votes` and `memberships`, and the update policy
+      on `votes`, reject rows from banned users
+    - `is_banned` runs in those policies as the client, so clients keep EXECUTE, but it only
+      answers for the caller; the service role can ask about anyone
+
+  3. Notes
+    - The edge functions write with the service role and keep checking bans themselves, with
+      the reason and end of the ban in the error
+*/
+
+CREATE OR REPLACE FUNCTION is_banned(p_user_id uuid, p_community_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Can only check your own bans';
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM user_bans
+    WHERE user_id = p_user_id
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > now())
+      AND (community_id IS NULL OR community_id = p_community_id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_banned(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_banned(uuid, uuid) TO authenticated, service_role;
+
+DROP POLICY IF EXISTS "Users can request membership" ON memberships;
+CREATE POLICY "Users can request membership"
+  ON memberships FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND NOT is_banned(auth.uid(), community_id)
+  );
+
+DROP POLICY IF EXISTS "Users can create posts in joined communities" ON posts;
+CREATE POLICY "Users can create posts in joined communities"
+  ON posts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = author_id 
+    AND community_id IN (
+      SELECT community_id FROM memberships 
+      WHERE user_id = auth.uid() AND status = 'approved'
+    )
+    AND NOT is_banned(auth.uid(), community_id)
+  );
+
+DROP POLICY IF EXISTS "Users can comment on viewable posts" ON comments;
+CREATE POLICY "Users can comment on viewable posts"
+  ON comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = author_id 
+    AND post_id IN (
+      SELECT id FROM posts WHERE is_approved = true AND NOT is_removed
+    )
+    AND NOT is_banned(auth.uid(), (SELECT community_id FROM posts WHERE id = post_id))
+  );
+
+DROP POLICY IF EXISTS "Users can vote on viewable content" ON votes;
+CREATE POLICY "Users can vote on viewable content"
+  ON votes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND NOT is_banned(auth.uid(), COALESCE(
+      (SELECT community_id FROM posts WHERE id = post_id),
+      (SELECT p.community_id FROM comments c JOIN posts p ON p.id = c.post_id WHERE c.id = comment_id)
+    ))
+  );
+
+DROP POLICY IF EXISTS "Users can update their own votes" ON votes;
+CREATE POLICY "Users can update their own votes"
+  ON votes FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND NOT is_banned(auth.uid(), COALESCE(
+      (SELECT community_id FROM posts WHERE id = post_id),
+      (SELECT p.community_id FROM comments c JOIN posts p ON p.id = c.post_id WHERE c.id = comment_id)
+    ))
+  );
@@ -0,0 +1,16 @@
+/*
+  # Read link previews with the caller's privileges
+
+  1. Functions
+    - `get_link_preview` no longer runs as its owner
+
+  2. Notes
+    - As SECURITY DEFINER it skipped RLS on `link_previews`, so any client could pass a URL
+      and read the cached title and description of a link shared only in a private community
+    - `link_previews` has no client policies, so clients calling it directly or through
+      `posts_with_stats` now get the plain URL back; `get_feed_posts`, `get_community_posts`
+      and the edge functions read it as the owner or the service role and still see the
+      cached metadata
+*/
+
+ALTER FUNCTION get_link_preview(text) SECURITY INVOKER;
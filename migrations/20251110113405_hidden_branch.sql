@@ -0,0 +1,13 @@
+/*
+  # Comment tree function is internal
+
+  1. Security
+    - `get_comment_tree` runs as its owner and pages through the comments of any post, including
+      posts in private communities, so only the service role (the comments edge function, which
+      checks the caller can see the post first) may call it
+*/
+
+REVOKE EXECUTE ON FUNCTION get_comment_tree(uuid, text, uuid, double precision, uuid, integer, integer, integer, integer)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_comment_tree(uuid, text, uuid, double precision, uuid, integer, integer, integer, integer)
+  TO service_role;
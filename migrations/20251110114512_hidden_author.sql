@@ -0,0 +1,32 @@
+/*
+  # Hide post and comment authors from direct table reads
+
+  1. Security
+    - Clients can no longer select `author_id` from `posts` or `comments`; every other column
+      stays readable under the existing row policies
+    - Column privileges only narrow access when the table-wide SELECT grant is gone, so the
+      table grant is revoked and the readable columns are granted one by one
+
+  2. Notes
+    - The row policies show approved content to everyone, so
+      `/rest/v1/posts?select=author_id,is_anonymous` named the author of every anonymous post
+    - Authors are read through `posts_with_stats`, which only keeps `author_id` for viewers
+      allowed to see it; the row policies and owner-run functions still compare `author_id`
+    - New columns on either table need adding to these grants before clients can read them
+*/
+
+REVOKE SELECT ON posts FROM anon, authenticated;
+GRANT SELECT (
+  id, title, content, community_id, is_anonymous, is_approved, is_removed, moderation_status,
+  toxicity_score, vote_score, comment_count, hot_score, hot_score_updated_at, created_at,
+  updated_at, approved_at, approved_by, edited_at, deleted_at, deleted_by, deletion_type,
+  minhash, post_type, link_url, content_html, alias_scope
+) ON posts TO anon, authenticated;
+
+REVOKE SELECT ON comments FROM anon, authenticated;
+GRANT SELECT (
+  id, content, post_id, parent_id, is_anonymous, is_approved, is_removed, moderation_status,
+  toxicity_score, vote_score, upvote_count, downvote_count, depth, hot_score,
+  hot_score_updated_at, created_at, updated_at, approved_at, approved_by, edited_at,
+  deleted_at, deleted_by, deletion_type, content_html
+) ON comments TO anon, authenticated;
@@ -0,0 +1,85 @@
+/*
+  # Keep vote scoring internal
+
+  1. Functions
+    - `score_vote_suspicion` runs as its owner, like `record_vote_flags`, so the scoring
+      functions it calls no longer need to be callable by clients
+    - `update_vote_scores` and `update_comment_vote_counts` run as their owner, since they count
+      votes by `is_discounted` and clients can no longer read it
+
+  2. Security
+    - Only the service role may call `is_vote_outsider` and `assess_vote`; both run as their owner
+      and told any caller how a given account's votes would be scored
+    - Votes can only be cast or moved onto content in public communities or communities the voter
+      is an approved member of, and still not by banned users
+    - Clients can no longer select `suspicion_score`, `suspicion_reasons` or `is_discounted` from
+      `votes`; the table-wide SELECT grant is replaced by grants on the other columns
+
+  3. Notes
+    - The update policy needs the same check as the insert policy since voters may change a vote's
+      `post_id` or `comment_id`
+*/
+
+ALTER FUNCTION score_vote_suspicion() SECURITY DEFINER;
+ALTER FUNCTION update_vote_scores() SECURITY DEFINER;
+ALTER FUNCTION update_comment_vote_counts() SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION is_vote_outsider(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION assess_vote(uuid, uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION is_vote_outsider(uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION assess_vote(uuid, uuid, uuid, text) TO service_role;
+
+DROP POLICY IF EXISTS "Users can vote on viewable content" ON votes;
+CREATE POLICY "Users can vote on viewable content"
+  ON votes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM communities c
+      WHERE c.id = COALESCE(
+          (SELECT community_id FROM posts WHERE id = post_id),
+          (SELECT p.community_id FROM comments cm JOIN posts p ON p.id = cm.post_id WHERE cm.id = comment_id)
+        )
+        AND NOT is_banned(auth.uid(), c.id)
+        AND (
+          c.privacy_type = 'public'
+          OR EXISTS (
+            SELECT 1 FROM memberships m
+            WHERE m.user_id = auth.uid()
+              AND m.community_id = c.id
+              AND m.status = 'approved'
+          )
+        )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update their own votes" ON votes;
+CREATE POLICY "Users can update their own votes"
+  ON votes FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM communities c
+      WHERE c.id = COALESCE(
+          (SELECT community_id FROM posts WHERE id = post_id),
+          (SELECT p.community_id FROM comments cm JOIN posts p ON p.id = cm.post_id WHERE cm.id = comment_id)
+        )
+        AND NOT is_banned(auth.uid(), c.id)
+        AND (
+          c.privacy_type = 'public'
+          OR EXISTS (
+            SELECT 1 FROM memberships m
+            WHERE m.user_id = auth.uid()
+              AND m.community_id = c.id
+              AND m.status = 'approved'
+          )
+        )
+    )
+  );
+
+REVOKE SELECT ON votes FROM anon, authenticated;
+GRANT SELECT (id, user_id, post_id, comment_id, vote_type, created_at) ON votes TO anon, authenticated;